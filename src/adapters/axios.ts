@@ -1,12 +1,31 @@
-import type { RequestContext, ResponseContext } from '../types';
-import { HttpError, NetworkError, TimeoutError } from '../errors';
-import type { AxiosInstance, AxiosRequestConfig } from 'axios';
-import { isAxiosError } from 'axios';
+import type { HttpAdapter, RequestContext, ResponseContext } from '../types';
+import { AbortError, HttpError, NetworkError, TimeoutError } from '../errors';
+import type { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
+
+// Structural check, so axios stays a type-only import and fetch-only bundles never include it
+function isAxiosError(error: unknown): error is AxiosError {
+  return (error as { isAxiosError?: unknown } | null)?.isAxiosError === true;
+}
+
+// Axios headers as a plain string record
+function toHeaderRecord(raw: unknown): Record<string, string> {
+  if (!raw) return {};
+  try {
+    return Object.fromEntries(
+      Object.entries(raw as Record<string, unknown>).map(([k, v]) => [
+        k,
+        typeof v === 'string' ? v : String(v),
+      ])
+    );
+  } catch {
+    return {};
+  }
+}
 
 /**
  * Axios HTTP adapter
  */
-export class AxiosAdapter {
+export class AxiosAdapter implements HttpAdapter {
   readonly name = 'axios';
   private axios: AxiosInstance;
 
@@ -14,6 +33,10 @@ export class AxiosAdapter {
     this.axios = axiosInstance;
   }
 
+  get baseURL(): string | undefined {
+    return this.axios.defaults?.baseURL;
+  }
+
   // Interceptors are not supported. Use middleware in the client instead.
 
   async request(context: RequestContext): Promise<ResponseContext> {
@@ -22,17 +45,7 @@ export class AxiosAdapter {
 
       const response = await this.axios.request(axiosConfig);
 
-      const headers: Record<string, string> = (() => {
-        const rh = (response.headers ?? {}) as Record<string, unknown>;
-        if (!rh) return {};
-        try {
-          return Object.fromEntries(
-            Object.entries(rh).map(([k, v]) => [k, typeof v === 'string' ? v : String(v)])
-          );
-        } catch {
-          return {};
-        }
-      })();
+      const headers = toHeaderRecord(response.headers);
 
       const responseContext: ResponseContext = {
         status: response.status,
@@ -47,7 +60,8 @@ export class AxiosAdapter {
           `HTTP ${response.status}: ${response.statusText}`,
           response.status,
           response.statusText,
-          response.data
+          response.data,
+          headers
         );
       }
 
@@ -59,6 +73,10 @@ export class AxiosAdapter {
 
       // Handle Axios errors
       if (isAxiosError(error)) {
+        if (error.code === 'ERR_CANCELED') {
+          throw new AbortError('Request aborted', context.signal?.reason);
+        }
+
         if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
           const to = typeof error.config?.timeout === 'number' ? error.config.timeout : 0;
           throw new TimeoutError(to || 0);
@@ -70,7 +88,8 @@ export class AxiosAdapter {
             `HTTP ${error.response.status}: ${error.response.statusText}`,
             error.response.status,
             error.response.statusText,
-            error.response.data
+            error.response.data,
+            toHeaderRecord(error.response.headers)
           );
         } else if (error.request) {
           // Request was made but no response received
@@ -105,9 +124,12 @@ export class AxiosAdapter {
       config.data = context.body;
     }
 
-    // Add query parameters
-    if (context.query && Object.keys(context.query).length > 0) {
-      config.params = context.query as Record<string, unknown>;
+    // Per-call cancellation and timeout
+    if (context.signal) {
+      config.signal = context.signal;
+    }
+    if (context.timeout !== undefined) {
+      config.timeout = context.timeout;
     }
 
     return config;
@@ -0,0 +1,170 @@
+import type { HttpAdapter, RequestContext, ResponseContext } from '../types';
+import { AbortError, ConfigError, HttpError, NetworkError, TimeoutError } from '../errors';
+
+/**
+ * Fetch adapter configuration
+ */
+export interface FetchAdapterConfig {
+  baseURL?: string;
+  headers?: Record<string, string>;
+  timeout?: number; // Request timeout (milliseconds)
+  fetch?: typeof fetch;
+  init?: Omit<RequestInit, 'method' | 'headers' | 'body' | 'signal'>;
+}
+
+/**
+ * Fetch HTTP adapter - uses the global fetch (or a provided implementation)
+ */
+export class FetchAdapter implements HttpAdapter {
+  readonly name = 'fetch';
+  private readonly config: FetchAdapterConfig;
+
+  constructor(config: FetchAdapterConfig = {}) {
+    this.config = config;
+  }
+
+  get baseURL(): string | undefined {
+    return this.config.baseURL;
+  }
+
+  async request(context: RequestContext): Promise<ResponseContext> {
+    const fetchImpl = this.config.fetch ?? globalThis.fetch;
+    if (typeof fetchImpl !== 'function') {
+      throw new ConfigError('FetchAdapter requires a global fetch or a fetch implementation');
+    }
+
+    const { signal } = context;
+    if (signal?.aborted) {
+      throw new AbortError('Request aborted', signal.reason);
+    }
+
+    const controller = new AbortController();
+    const timeout = context.timeout ?? this.config.timeout;
+    let timedOut = false;
+    const timer =
+      timeout && timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : undefined;
+
+    // Forward caller cancellation to the request
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetchImpl(this.buildUrl(context.url), {
+        ...this.config.init,
+        ...this.createRequestInit(context),
+        signal: controller.signal,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      const data = await this.parseBody(response);
+
+      // Check HTTP status
+      if (response.status >= 400) {
+        throw new HttpError(
+          `HTTP ${response.status}: ${response.statusText}`,
+          response.status,
+          response.statusText,
+          data,
+          headers
+        );
+      }
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        data,
+      };
+    } catch (error: unknown) {
+      if (error instanceof HttpError || error instanceof ConfigError) {
+        throw error;
+      }
+
+      if (timedOut) {
+        throw new TimeoutError(timeout ?? 0);
+      }
+
+      if (signal?.aborted) {
+        throw new AbortError('Request aborted', signal.reason);
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new NetworkError(
+        `Network request failed: ${message}`,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private buildUrl(url: string): string {
+    const { baseURL } = this.config;
+    if (!baseURL || /^[a-z][a-z\d+\-.]*:\/\//i.test(url)) {
+      return url;
+    }
+    return `${baseURL.replace(/\/+$/, '')}${url.startsWith('/') ? url : `/${url}`}`;
+  }
+
+  private createRequestInit(context: RequestContext): RequestInit {
+    const rawBody = isRawBody(context.body);
+    const headers: Record<string, string> = {
+      // Let fetch derive the content type for FormData, Blob, etc.
+      ...(rawBody ? {} : { 'Content-Type': 'application/json' }),
+      ...this.config.headers,
+      ...context.headers,
+    };
+
+    const init: RequestInit = {
+      method: context.method.toUpperCase(),
+      headers,
+    };
+
+    // Add request body
+    if (context.body !== undefined && !['GET', 'HEAD'].includes(context.method.toUpperCase())) {
+      init.body = rawBody ? (context.body as BodyInit) : JSON.stringify(context.body);
+    }
+
+    return init;
+  }
+
+  private async parseBody(response: Response): Promise<unknown> {
+    if (response.status === 204 || response.status === 205) {
+      return undefined;
+    }
+
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+
+    // Mirror axios: parse JSON when possible, otherwise keep the raw text
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return text;
+    }
+  }
+}
+
+// Bodies that fetch can send as-is
+function isRawBody(body: unknown): boolean {
+  return (
+    typeof body === 'string' ||
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body)
+  );
+}
@@ -1,3 +1,15 @@
-// Adapters index is no longer needed since only Axios is supported.
-// This file is kept for potential future expansion.
-export {};
+/**
+ * HTTP adapters
+ */
+export { AxiosAdapter } from './axios';
+export { FetchAdapter, type FetchAdapterConfig } from './fetch';
+export {
+  MockAdapter,
+  createMockClient,
+  mockResponse,
+  type MockHandler,
+  type MockHandlers,
+  type MockCall,
+  type MockResponse,
+} from './mock';
+export type { HttpAdapter } from '../types';
@@ -0,0 +1,204 @@
+import type {
+  ApiClient,
+  ClientConfig,
+  Contract,
+  ContractEndpoint,
+  ContractEndpointKey,
+  EndpointDefinition,
+  HttpAdapter,
+  InferRequestType,
+  InferResponseType,
+  RequestContext,
+  ResponseContext,
+} from '../types';
+import { AbortError, ConfigError, HttpError } from '../errors';
+import { validateIncomingRequest } from '../validation';
+import { createRouteTable, matchRoute, type ContractRoute } from '../utils/contract';
+import { matchPath } from '../utils/path';
+import { createClient, ZodseiClient } from '../client';
+
+/**
+ * Mock response with explicit status and headers
+ */
+export interface MockResponse<T = unknown> {
+  readonly __mockResponse: true;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: T;
+}
+
+/**
+ * Mock handler for a single endpoint
+ */
+export type MockHandler<E extends EndpointDefinition> = (
+  input: InferRequestType<E>,
+  request: RequestContext
+) =>
+  | InferResponseType<E>
+  | MockResponse<unknown>
+  | Promise<InferResponseType<E> | MockResponse<unknown>>;
+
+/**
+ * Mock handlers keyed by dotted contract keys
+ */
+export type MockHandlers<T extends Contract> = {
+  [K in ContractEndpointKey<T>]?: MockHandler<ContractEndpoint<T, K>>;
+};
+
+/**
+ * Recorded mock call
+ */
+export interface MockCall {
+  endpoint: string;
+  input: unknown;
+  request: RequestContext;
+  response?: ResponseContext;
+  error?: Error;
+}
+
+/**
+ * Create a mock response with a custom status or headers
+ */
+export function mockResponse<T>(
+  data: T,
+  init: { status?: number; statusText?: string; headers?: Record<string, string> } = {}
+): MockResponse<T> {
+  return {
+    __mockResponse: true,
+    status: init.status ?? 200,
+    statusText: init.statusText ?? 'OK',
+    headers: init.headers ?? {},
+    data,
+  };
+}
+
+function isMockResponse(value: unknown): value is MockResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { __mockResponse?: unknown }).__mockResponse === true
+  );
+}
+
+/**
+ * In-memory adapter that routes requests to contract-keyed handlers
+ */
+export class MockAdapter<T extends Contract> implements HttpAdapter {
+  readonly name = 'mock';
+  readonly calls: MockCall[] = [];
+  private readonly routes: ContractRoute[];
+  private readonly handlers: Record<string, MockHandler<EndpointDefinition> | undefined>;
+
+  constructor(contract: T, handlers: NoInfer<MockHandlers<T>> = {}) {
+    this.routes = createRouteTable(contract);
+    this.handlers = { ...handlers } as Record<string, MockHandler<EndpointDefinition> | undefined>;
+  }
+
+  /**
+   * Register or replace the handler for an endpoint
+   */
+  on<K extends ContractEndpointKey<T>>(key: K, handler: MockHandler<ContractEndpoint<T, K>>): this {
+    this.handlers[key] = handler as unknown as MockHandler<EndpointDefinition>;
+    return this;
+  }
+
+  /**
+   * Get recorded calls for an endpoint
+   */
+  callsFor(key: ContractEndpointKey<T>): MockCall[] {
+    return this.calls.filter((call) => call.endpoint === key);
+  }
+
+  /**
+   * Clear recorded calls
+   */
+  reset(): void {
+    this.calls.length = 0;
+  }
+
+  async request(context: RequestContext): Promise<ResponseContext> {
+    if (context.signal?.aborted) {
+      throw new AbortError('Request aborted', context.signal.reason);
+    }
+
+    const match = this.match(context);
+    if (!match) {
+      throw new ConfigError(
+        `MockAdapter: no endpoint in contract matches ${context.method.toUpperCase()} ${context.url}`
+      );
+    }
+
+    const { key, endpoint, params } = match;
+    const handler = this.handlers[key];
+    if (!handler) {
+      throw new ConfigError(`MockAdapter: no handler registered for endpoint "${key}"`);
+    }
+
+    const call: MockCall = { endpoint: key, input: undefined, request: context };
+    this.calls.push(call);
+
+    try {
+      call.input = validateIncomingRequest(endpoint, {
+        params,
+        query: context.query,
+        headers: context.headers,
+        body: context.body,
+      });
+      const result = await handler(call.input as never, context);
+
+      const response: ResponseContext = isMockResponse(result)
+        ? {
+            status: result.status,
+            statusText: result.statusText,
+            headers: result.headers,
+            data: result.data,
+          }
+        : { status: 200, statusText: 'OK', headers: {}, data: result };
+      call.response = response;
+
+      if (response.status >= 400) {
+        throw new HttpError(
+          `HTTP ${response.status}: ${response.statusText}`,
+          response.status,
+          response.statusText,
+          response.data,
+          response.headers
+        );
+      }
+
+      return response;
+    } catch (error) {
+      call.error = error as Error;
+      throw error;
+    }
+  }
+
+  // Route by the endpoint the client called, falling back to the URL for hand-built requests
+  private match(context: RequestContext): ReturnType<typeof matchRoute> {
+    const route = this.routes.find(({ key }) => key === context.endpoint);
+    if (route) {
+      return { ...route, params: matchPath(route.endpoint.path, context.url) ?? {} };
+    }
+    return matchRoute(this.routes, context.method, context.url);
+  }
+}
+
+/**
+ * Create a client backed by a MockAdapter
+ */
+export function createMockClient<
+  T extends Contract,
+  C extends Omit<ClientConfig, 'axios' | 'adapter'> = Omit<ClientConfig, 'axios' | 'adapter'>,
+>(
+  contract: T,
+  handlers: NoInfer<MockHandlers<T>> = {},
+  config: C = {} as C
+): {
+  client: ZodseiClient<T> & ApiClient<T, C extends { throwOnError: false } ? false : true>;
+  mock: MockAdapter<T>;
+} {
+  const mock = new MockAdapter(contract, handlers);
+  const client = createClient(contract, { ...config, adapter: mock });
+  return { client, mock };
+}
@@ -0,0 +1,173 @@
+#!/usr/bin/env node
+import { extname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { generateContractFile } from './openapi/file';
+import type { CodegenOptions } from './openapi/codegen';
+import { startMockServer } from './server/mock';
+import { flattenContract, isNestedContract } from './utils/contract';
+import type { Contract } from './types';
+
+/**
+ * Zodsei command line interface
+ */
+
+const USAGE = `Usage: zodsei <command> [options]
+
+Commands:
+  generate <input> -o <output>   Generate a contract module from an OpenAPI 3.x JSON/YAML file
+  mock <contract-module>         Serve schema-generated data for every endpoint of a contract
+
+Generate options:
+  -o, --output <file>     Output TypeScript file
+  --group-by <tag|path>   Group endpoints by tag or first path segment (default: tag)
+  --name <identifier>     Exported contract name (default: contract)
+  --import <module>       Module providing z and defineContract (default: zodsei)
+
+Mock options:
+  -p, --port <port>       Port to listen on (default: 4010)
+  --host <host>           Host to bind (default: 127.0.0.1)
+  --base-path <path>      Serve endpoints under a prefix, e.g. /api
+  --seed <seed>           Seed for reproducible responses (default: 1)
+  --export <name>         Contract export of the module (default: contract, then default)
+
+  -h, --help              Show this help
+`;
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | true>;
+}
+
+const FLAG_ALIASES: Record<string, string> = { o: 'output', p: 'port', h: 'help' };
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('-')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [rawName, inlineValue] = arg.replace(/^-{1,2}/, '').split(/=(.*)/s, 2);
+    const name = FLAG_ALIASES[rawName] ?? rawName;
+    if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('-')) {
+      flags[name] = argv[++i];
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return { positionals, flags };
+}
+
+function stringFlag(flags: ParsedArgs['flags'], name: string): string | undefined {
+  const value = flags[name];
+  if (value === true) {
+    throw new Error(`Option --${name} requires a value`);
+  }
+  return value;
+}
+
+async function generate({ positionals, flags }: ParsedArgs): Promise<void> {
+  const input = positionals[0];
+  const output = stringFlag(flags, 'output');
+  if (!input || !output) {
+    throw new Error('generate requires an input file and --output');
+  }
+
+  const groupBy = stringFlag(flags, 'group-by');
+  if (groupBy !== undefined && groupBy !== 'tag' && groupBy !== 'path') {
+    throw new Error(`Invalid --group-by "${groupBy}", expected "tag" or "path"`);
+  }
+
+  const options: CodegenOptions = {
+    groupBy,
+    contractName: stringFlag(flags, 'name'),
+    importSource: stringFlag(flags, 'import'),
+  };
+
+  await generateContractFile(resolve(input), resolve(output), options);
+  console.log(`Generated ${output} from ${input}`);
+}
+
+// Import a contract from a JS module (TypeScript modules need a loader such as tsx)
+async function loadContract(path: string, exportName?: string): Promise<Contract> {
+  let module: Record<string, unknown>;
+  try {
+    module = (await import(pathToFileURL(resolve(path)).href)) as Record<string, unknown>;
+  } catch (error) {
+    if (['.ts', '.mts', '.cts'].includes(extname(path))) {
+      throw new Error(
+        `Cannot import "${path}" directly; run the CLI through a TypeScript loader, e.g. \`npx tsx node_modules/.bin/zodsei mock ${path}\``
+      );
+    }
+    throw error;
+  }
+
+  const contract = exportName ? module[exportName] : (module.contract ?? module.default);
+  if (!isNestedContract(contract) || flattenContract(contract).length === 0) {
+    throw new Error(`"${path}" does not export a contract as "${exportName ?? 'contract'}"`);
+  }
+  return contract;
+}
+
+async function mock({ positionals, flags }: ParsedArgs): Promise<void> {
+  const modulePath = positionals[0];
+  if (!modulePath) {
+    throw new Error('mock requires a contract module');
+  }
+
+  const port = Number(stringFlag(flags, 'port') ?? 4010);
+  if (!Number.isInteger(port) || port < 0) {
+    throw new Error(`Invalid --port "${stringFlag(flags, 'port')}"`);
+  }
+
+  const contract = await loadContract(modulePath, stringFlag(flags, 'export'));
+  const seed = stringFlag(flags, 'seed');
+  const mockServer = await startMockServer(contract, {
+    port,
+    host: stringFlag(flags, 'host'),
+    basePath: stringFlag(flags, 'base-path'),
+    seed: seed !== undefined && /^\d+$/.test(seed) ? Number(seed) : seed,
+    onError: (error) => console.error(error),
+  });
+
+  for (const { endpoint } of flattenContract(contract)) {
+    console.log(`  ${endpoint.method.toUpperCase().padEnd(7)} ${endpoint.path}`);
+  }
+  console.log(`Mock server listening on ${mockServer.url}`);
+
+  process.once('SIGINT', () => void mockServer.close());
+  process.once('SIGTERM', () => void mockServer.close());
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...rest] = argv;
+  const args = parseArgs(rest);
+
+  if (!command || command === '--help' || command === '-h' || args.flags.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  switch (command) {
+    case 'generate':
+      await generate(args);
+      return;
+    case 'mock':
+      await mock(args);
+      return;
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(`zodsei: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+});
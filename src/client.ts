@@ -9,11 +9,24 @@ import {
   EndpointMethodWithSchema,
   InferRequestType,
   InferResponseType,
+  HttpAdapter,
+  RequestOptions,
+  InferErrorType,
+  InferEndpointResult,
+  ZodseiResponse,
 } from './types';
-import { validateRequest, validateResponse } from './validation';
-import { separateParams, buildUrl, replacePath, shouldHaveBody } from './utils/path';
+import {
+  validateRequest,
+  validateRequestParts,
+  validateResponse,
+  getResponseSchema,
+} from './validation';
+import { separateParams, buildUrl, replacePath, shouldHaveBody, applyQuery } from './utils/path';
+import { hasRequestInput, hasRequestParts } from './utils/contract';
 import { createMiddlewareExecutor, MiddlewareExecutor } from './middleware';
+import { runWithTimeout } from './middleware/timeout';
 import { AxiosAdapter } from './adapters/axios';
+import { ConfigError, HttpError, ValidationError, ZodseiError } from './errors';
 import { SchemaExtractor, createSchemaExtractor } from './schema';
 
 /**
@@ -23,7 +36,7 @@ export class ZodseiClient<T extends Contract> {
   private readonly contract: T;
   private readonly config: InternalClientConfig;
   private readonly middlewareExecutor: MiddlewareExecutor;
-  private adapter: AxiosAdapter | null = null;
+  private adapter: HttpAdapter | null = null;
   public readonly $schema: SchemaExtractor<T>;
 
   constructor(contract: T, config: ClientConfig) {
@@ -43,7 +56,7 @@ export class ZodseiClient<T extends Contract> {
 
           // Check if it's a nested contract
           if (prop in this.contract && this.isNestedContract(this.contract[prop])) {
-            return this.createNestedClient(this.contract[prop] as Contract);
+            return this.createNestedClient(this.contract[prop] as Contract, prop);
           }
         }
         return Reflect.get(target as object, prop) as unknown;
@@ -55,11 +68,17 @@ export class ZodseiClient<T extends Contract> {
    * Normalize configuration
    */
   private normalizeConfig(config: ClientConfig): InternalClientConfig {
+    if (!config.adapter && !config.axios) {
+      throw new ConfigError('Either an `axios` instance or an `adapter` must be provided');
+    }
+
     return {
       validateRequest: config.validateRequest ?? true,
       validateResponse: config.validateResponse ?? true,
+      throwOnError: config.throwOnError ?? true,
       middleware: config.middleware ?? [],
       axios: config.axios,
+      adapter: config.adapter,
     };
   }
 
@@ -80,7 +99,7 @@ export class ZodseiClient<T extends Contract> {
   /**
    * Create nested client for sub-contracts
    */
-  private createNestedClient(nestedContract: Contract): ApiClient<Contract> {
+  private createNestedClient(nestedContract: Contract, prefix: string): ApiClient<Contract> {
     return new Proxy(
       {},
       {
@@ -89,14 +108,14 @@ export class ZodseiClient<T extends Contract> {
             // Check if it's a direct endpoint in nested contract
             if (prop in nestedContract && this.isEndpointDefinition(nestedContract[prop])) {
               return this.createEndpointMethod(
-                `${prop}`,
+                `${prefix}.${prop}`,
                 nestedContract[prop] as EndpointDefinition
               );
             }
 
             // Check if it's further nested
             if (prop in nestedContract && this.isNestedContract(nestedContract[prop])) {
-              return this.createNestedClient(nestedContract[prop] as Contract);
+              return this.createNestedClient(nestedContract[prop] as Contract, `${prefix}.${prop}`);
             }
           }
           return undefined as unknown;
@@ -108,62 +127,164 @@ export class ZodseiClient<T extends Contract> {
   /**
    * Create endpoint method with schema access
    */
-  private createEndpointMethod(endpointName: string, endpoint?: EndpointDefinition) {
-    const targetEndpoint = endpoint || (this.contract[endpointName] as EndpointDefinition);
+  private createEndpointMethod(key: string, endpoint?: EndpointDefinition) {
+    const targetEndpoint = endpoint || (this.contract[key] as EndpointDefinition);
 
-    const method = async (...args: unknown[]) => {
+    const raw = async (...args: unknown[]) => {
       // 如果有 request schema，取第一个参数；否则传 undefined
-      const data = targetEndpoint.request ? args[0] : undefined;
-      return this.executeEndpoint(targetEndpoint, data) as Promise<
-        InferResponseType<typeof targetEndpoint>
+      const hasInput = hasRequestInput(targetEndpoint);
+      const data = hasInput ? args[0] : undefined;
+      // Per-call options follow the data argument (or come first without a request schema)
+      const options = (hasInput ? args[1] : args[0]) as RequestOptions | undefined;
+      return this.executeEndpoint(key, targetEndpoint, data, options) as Promise<
+        ZodseiResponse<InferResponseType<typeof targetEndpoint>>
       >;
     };
 
+    const call = async (...args: unknown[]) => (await raw(...args)).data;
+
+    // Non-throwing variant
+    const safe = async (...args: unknown[]) => {
+      try {
+        return { ok: true, data: await call(...args) } as InferEndpointResult<
+          typeof targetEndpoint
+        >;
+      } catch (error) {
+        return { ok: false, error: ZodseiError.from(error) } as InferEndpointResult<
+          typeof targetEndpoint
+        >;
+      }
+    };
+
+    const method = this.config.throwOnError ? call : safe;
+    (method as EndpointMethodWithSchema<typeof targetEndpoint>).safe = safe;
+    (method as EndpointMethodWithSchema<typeof targetEndpoint>).raw = raw;
+
     // Attach schema information to the method
     (method as EndpointMethodWithSchema<typeof targetEndpoint>).schema = {
       request: targetEndpoint.request,
       response: targetEndpoint.response,
+      responses: targetEndpoint.responses,
       endpoint: targetEndpoint,
     };
 
     // Attach type inference helpers (for development/debugging)
     (method as EndpointMethodWithSchema<typeof targetEndpoint>).infer = {
-      request: (targetEndpoint.request ? {} : undefined) as InferRequestType<typeof targetEndpoint>,
+      request: (hasRequestInput(targetEndpoint) ? {} : undefined) as InferRequestType<
+        typeof targetEndpoint
+      >,
       response: (targetEndpoint.response ? {} : {}) as InferResponseType<typeof targetEndpoint>,
+      error: undefined as unknown as InferErrorType<typeof targetEndpoint>,
     };
 
+    // Attach declared error type guard
+    (method as EndpointMethodWithSchema<typeof targetEndpoint>).isError = (
+      error: unknown
+    ): error is InferErrorType<typeof targetEndpoint> =>
+      error instanceof HttpError &&
+      Boolean(targetEndpoint.responses?.[error.status]) &&
+      !(error.cause instanceof ValidationError);
+
     return method as EndpointMethodWithSchema<typeof targetEndpoint>;
   }
 
   /**
    * Execute endpoint request
    */
-  private async executeEndpoint(endpoint: EndpointDefinition, data: unknown): Promise<unknown> {
+  private async executeEndpoint(
+    key: string,
+    endpoint: EndpointDefinition,
+    data: unknown,
+    options: RequestOptions = {}
+  ): Promise<ZodseiResponse> {
+    const structured = hasRequestParts(endpoint);
+
     // Validate request data
-    const validatedData = this.config.validateRequest
-      ? validateRequest(endpoint.request, data)
-      : data;
+    const validatedData = !this.config.validateRequest
+      ? data
+      : structured
+        ? validateRequestParts(endpoint, data)
+        : validateRequest(endpoint.request, data);
 
-    // Build request context
-    const requestContext = this.buildRequestContext(endpoint, validatedData);
+    // Build request context; the endpoint's own timeout applies unless the call sets one
+    const contextOptions = { ...options, timeout: options.timeout ?? endpoint.timeout };
+    const adapter = await this.getAdapter();
+    const requestContext: RequestContext = {
+      ...(structured
+        ? this.buildStructuredRequestContext(endpoint, validatedData, contextOptions)
+        : this.buildRequestContext(endpoint, validatedData, contextOptions)),
+      endpoint: key,
+      baseURL: adapter.baseURL,
+      idempotent: endpoint.idempotent,
+      cache: endpoint.cache,
+      invalidates: endpoint.invalidates,
+    };
 
-    // Execute middleware chain
-    const response = await this.middlewareExecutor.execute(requestContext, (ctx) =>
-      this.executeHttpRequest(ctx)
-    );
+    // Execute middleware chain, keeping the request that reached the adapter
+    let sentRequest = requestContext;
+    let response: ResponseContext;
+    try {
+      response = await this.middlewareExecutor.execute(requestContext, (ctx) => {
+        // Adapters send `url` as is, so serialize `query` (possibly changed by middleware) into it
+        sentRequest = { ...ctx, url: applyQuery(ctx.url, ctx.query) };
+        return this.executeHttpRequest(sentRequest);
+      });
+    } catch (error) {
+      throw this.toDeclaredError(endpoint, error);
+    }
 
     // Validate response data
     const validatedResponse = this.config.validateResponse
-      ? validateResponse(endpoint.response, response.data)
+      ? validateResponse(getResponseSchema(endpoint, response.status), response.data)
       : response.data;
 
-    return validatedResponse;
+    return {
+      data: validatedResponse,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      request: sentRequest,
+    };
+  }
+
+  /**
+   * Validate the body of an HTTP error declared in `responses`
+   *
+   * A body that fails its schema stays as received, with the `ValidationError` as `cause`, so
+   * the caller (and retry, circuit breaker, logging) still see the HTTP status.
+   */
+  private toDeclaredError(endpoint: EndpointDefinition, error: unknown): unknown {
+    if (!(error instanceof HttpError) || !this.config.validateResponse) {
+      return error;
+    }
+
+    const schema = endpoint.responses?.[error.status];
+    if (!schema) {
+      return error;
+    }
+
+    const { message, status, statusText, response, headers } = error;
+    try {
+      return new HttpError(
+        message,
+        status,
+        statusText,
+        validateResponse(schema, response),
+        headers
+      );
+    } catch (validationError) {
+      return new HttpError(message, status, statusText, response, headers, validationError);
+    }
   }
 
   /**
    * Build request context
    */
-  private buildRequestContext(endpoint: EndpointDefinition, data: unknown): RequestContext {
+  private buildRequestContext(
+    endpoint: EndpointDefinition,
+    data: unknown,
+    options: RequestOptions = {}
+  ): RequestContext {
     const { path, method } = endpoint;
 
     // Separate path params and query params
@@ -175,9 +296,16 @@ export class ZodseiClient<T extends Contract> {
     // Replace path parameters
     const finalPath = replacePath(path, pathParams);
 
+    // Merge per-call query parameters
+    const query =
+      method.toLowerCase() === 'get'
+        ? { ...queryParams, ...options.query }
+        : options.query
+          ? { ...options.query }
+          : undefined;
+
     // Build URL (relative path; axios instance is responsible for baseURL)
-    const url =
-      method.toLowerCase() === 'get' ? buildUrl(finalPath, queryParams) : buildUrl(finalPath);
+    const url = buildUrl(finalPath, query);
 
     // Determine request body
     const body = shouldHaveBody(method)
@@ -189,19 +317,61 @@ export class ZodseiClient<T extends Contract> {
     return {
       url,
       method,
-      headers: {},
+      headers: { ...options.headers },
       body,
       params: pathParams,
-      query: method.toLowerCase() === 'get' ? (queryParams as Record<string, unknown>) : undefined,
+      query,
+      signal: options.signal,
+      timeout: options.timeout,
+      meta: options.meta,
+    };
+  }
+
+  /**
+   * Build request context from structured { params, query, headers, body } input
+   */
+  private buildStructuredRequestContext(
+    endpoint: EndpointDefinition,
+    data: unknown,
+    options: RequestOptions = {}
+  ): RequestContext {
+    const { path, method } = endpoint;
+    const input =
+      typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+
+    const pathParams = toStringRecord(input.params);
+    const query =
+      input.query !== undefined || options.query
+        ? { ...(input.query as Record<string, unknown> | undefined), ...options.query }
+        : undefined;
+
+    const sendsBody = !['GET', 'HEAD'].includes(method.toUpperCase());
+
+    return {
+      url: buildUrl(replacePath(path, pathParams), query),
+      method,
+      headers: { ...toStringRecord(input.headers), ...options.headers },
+      body: sendsBody ? input.body : undefined,
+      params: pathParams,
+      query,
+      signal: options.signal,
+      timeout: options.timeout,
+      meta: options.meta,
     };
   }
 
   /**
    * Get adapter
    */
-  private async getAdapter(): Promise<AxiosAdapter> {
+  private async getAdapter(): Promise<HttpAdapter> {
     if (!this.adapter) {
-      this.adapter = new AxiosAdapter(this.config.axios);
+      if (this.config.adapter) {
+        this.adapter = this.config.adapter;
+      } else if (this.config.axios) {
+        this.adapter = new AxiosAdapter(this.config.axios);
+      } else {
+        throw new ConfigError('Either an `axios` instance or an `adapter` must be provided');
+      }
     }
     return this.adapter;
   }
@@ -211,7 +381,10 @@ export class ZodseiClient<T extends Contract> {
    */
   private async executeHttpRequest(context: RequestContext): Promise<ResponseContext> {
     const adapter = await this.getAdapter();
-    return adapter.request(context);
+    // Enforce timeouts even for adapters that ignore `context.timeout`
+    return context.timeout !== undefined
+      ? runWithTimeout(context, context.timeout, (ctx) => adapter.request(ctx))
+      : adapter.request(context);
   }
 
   /**
@@ -241,12 +414,25 @@ export class ZodseiClient<T extends Contract> {
   }
 }
 
+// Convert header/path values to strings, dropping undefined and null
+function toStringRecord(value: unknown): Record<string, string> {
+  if (typeof value !== 'object' || value === null) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .map(([k, v]) => [k, String(v)])
+  );
+}
+
 /**
  * Create client with enhanced schema support
  */
-export function createClient<T extends Contract>(
+export function createClient<T extends Contract, C extends ClientConfig = ClientConfig>(
   contract: T,
-  config: ClientConfig
-): ZodseiClient<T> & ApiClient<T> {
-  return new ZodseiClient(contract, config) as ZodseiClient<T> & ApiClient<T>;
+  config: C
+): ZodseiClient<T> & ApiClient<T, C extends { throwOnError: false } ? false : true> {
+  return new ZodseiClient(contract, config) as ZodseiClient<T> &
+    ApiClient<T, C extends { throwOnError: false } ? false : true>;
 }
@@ -4,11 +4,21 @@ import { z } from 'zod';
 export class ZodseiError extends Error {
   constructor(
     message: string,
-    public readonly code: string
+    public readonly code: string,
+    public readonly cause?: unknown
   ) {
     super(message);
     this.name = 'ZodseiError';
   }
+
+  // Wrap any thrown value as a ZodseiError (non-Zodsei errors get code UNKNOWN_ERROR)
+  static from(error: unknown): ZodseiError {
+    if (error instanceof ZodseiError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new ZodseiError(message, 'UNKNOWN_ERROR', error);
+  }
 }
 
 // Validation error
@@ -34,21 +44,27 @@ export class ValidationError extends ZodseiError {
   }
 }
 
-// HTTP error
-export class HttpError extends ZodseiError {
+// HTTP error - typed by status and body when the endpoint declares `responses`
+export class HttpError<TStatus extends number = number, TBody = unknown> extends ZodseiError {
   constructor(
     message: string,
-    public readonly status: number,
+    public readonly status: TStatus,
     public readonly statusText: string,
-    public readonly response?: unknown
+    public readonly response?: TBody,
+    public readonly headers: Record<string, string> = {},
+    cause?: unknown
   ) {
-    super(message, 'HTTP_ERROR');
+    super(message, 'HTTP_ERROR', cause);
     this.name = 'HttpError';
   }
 
   static fromResponse(response: Response, data?: unknown): HttpError {
     const message = `HTTP ${response.status}: ${response.statusText}`;
-    return new HttpError(message, response.status, response.statusText, data);
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    return new HttpError(message, response.status, response.statusText, data, headers);
   }
 }
 
@@ -73,8 +89,38 @@ export class ConfigError extends ZodseiError {
 
 // Timeout error
 export class TimeoutError extends ZodseiError {
-  constructor(timeout: number) {
+  constructor(public readonly timeout: number) {
     super(`Request timeout after ${timeout}ms`, 'TIMEOUT_ERROR');
     this.name = 'TimeoutError';
   }
 }
+
+// Circuit open error - thrown without sending the request while a circuit breaker is open
+export class CircuitOpenError extends ZodseiError {
+  constructor(
+    public readonly key: string,
+    public readonly retryAfter: number // Milliseconds until a trial request is allowed
+  ) {
+    super(`Circuit open for ${key}, retry after ${retryAfter}ms`, 'CIRCUIT_OPEN');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Auth error - the access token could not be refreshed
+export class AuthError extends ZodseiError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'AUTH_ERROR', cause);
+    this.name = 'AuthError';
+  }
+}
+
+// Abort error
+export class AbortError extends ZodseiError {
+  constructor(
+    message = 'Request aborted',
+    public readonly reason?: unknown
+  ) {
+    super(message, 'ABORT_ERROR');
+    this.name = 'AbortError';
+  }
+}
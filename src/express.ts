@@ -0,0 +1,12 @@
+/**
+ * Zodsei Express entry - requires `express` 5
+ */
+export { toExpressRouter } from './server/express';
+export {
+  reply,
+  type ServerHandler,
+  type ServerHandlers,
+  type ServerOptions,
+  type ServerReply,
+  type ServerRequestContext,
+} from './server/core';
@@ -0,0 +1,12 @@
+/**
+ * Zodsei Fastify entry - requires `fastify` 5
+ */
+export { toFastifyPlugin } from './server/fastify';
+export {
+  reply,
+  type ServerHandler,
+  type ServerHandlers,
+  type ServerOptions,
+  type ServerReply,
+  type ServerRequestContext,
+} from './server/core';
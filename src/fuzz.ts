@@ -0,0 +1,258 @@
+import type {
+  Contract,
+  ContractEndpointKey,
+  EndpointDefinition,
+  HttpAdapter,
+  Middleware,
+  ZodseiResponse,
+} from './types';
+import { HttpError, ValidationError, ZodseiError } from './errors';
+import { createClient } from './client';
+import { generateSample, hashSeed, SeededRandom } from './sample';
+import { validateRequest, validateRequestParts } from './validation';
+import { flattenContract, hasRequestInput, hasRequestParts, REQUEST_PARTS } from './utils/contract';
+import { extractPathParamNames } from './utils/path';
+
+/**
+ * Contract fuzzing - sends generated valid and invalid requests and reports contract drift
+ */
+
+/**
+ * Fuzzing options
+ */
+export interface FuzzOptions<T extends Contract> {
+  adapter: HttpAdapter;
+  runs?: number; // Requests per endpoint and kind (default: 10)
+  seed?: number | string; // default: 1
+  invalid?: boolean; // Also send requests that break the request schema (default: true)
+  endpoints?: Array<ContractEndpointKey<T>>; // Only fuzz these endpoints (default: all)
+  middleware?: Middleware[];
+}
+
+/**
+ * A request whose outcome breaks the contract
+ *
+ * - `response-schema`: the response body does not match the schema for its status
+ * - `server-error`: the service answered 5xx
+ * - `error`: the request failed otherwise (network, timeout, adapter errors)
+ */
+export interface FuzzFailure {
+  endpoint: string;
+  kind: 'response-schema' | 'server-error' | 'error';
+  valid: boolean; // Whether the request matched the request schema
+  input: unknown;
+  status?: number;
+  error: ZodseiError;
+}
+
+/**
+ * Per-endpoint request counts
+ */
+export interface FuzzEndpointStats {
+  requests: number;
+  rejected: number; // Invalid requests answered with 4xx (or rejected by request validation)
+  failures: number;
+}
+
+/**
+ * Fuzzing result
+ */
+export interface FuzzReport {
+  ok: boolean;
+  requests: number;
+  endpoints: Record<string, FuzzEndpointStats>;
+  failures: FuzzFailure[];
+}
+
+// Attempts at producing an input the request schema rejects
+const MAX_MUTATIONS = 5;
+
+// A value of a different type than the given one
+function wrongType(value: unknown): unknown {
+  switch (typeof value) {
+    case 'string':
+      return 42;
+    case 'number':
+    case 'bigint':
+      return 'not-a-number';
+    case 'boolean':
+      return 'not-a-boolean';
+    case 'object':
+      return value === null ? 42 : Array.isArray(value) ? { invalid: true } : 'not-an-object';
+    default:
+      return 42;
+  }
+}
+
+// Drop or retype one property, never removing `keep` (path params the client needs)
+function mutateObject(
+  value: Record<string, unknown>,
+  random: SeededRandom,
+  keep: string[] = []
+): Record<string, unknown> {
+  const keys = Object.keys(value);
+  if (keys.length === 0) {
+    return { ...value, [`unexpected${random.int(0, 99)}`]: wrongType(undefined) };
+  }
+
+  const key = random.pick(keys);
+  const result = { ...value };
+  if (!keep.includes(key) && random.bool()) {
+    delete result[key];
+  } else {
+    result[key] = wrongType(value[key]);
+  }
+  return result;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidInput(endpoint: EndpointDefinition, input: unknown): boolean {
+  try {
+    if (hasRequestParts(endpoint)) {
+      validateRequestParts(endpoint, input);
+    } else {
+      validateRequest(endpoint.request, input);
+    }
+    return true;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Input that breaks the request schema while keeping the path buildable, or undefined
+function invalidInput(endpoint: EndpointDefinition, valid: unknown, random: SeededRandom): unknown {
+  for (let attempt = 0; attempt < MAX_MUTATIONS; attempt++) {
+    let candidate: unknown;
+
+    if (hasRequestParts(endpoint) && isObject(valid)) {
+      // Params may be retyped but must stay present
+      const part = random.pick(Object.keys(valid));
+      const current = valid[part];
+      candidate = {
+        ...valid,
+        [part]: isObject(current)
+          ? mutateObject(current, random, part === 'params' ? Object.keys(current) : [])
+          : wrongType(current),
+      };
+    } else if (isObject(valid)) {
+      candidate = mutateObject(valid, random, extractPathParamNames(endpoint.path));
+    } else {
+      candidate = wrongType(valid);
+    }
+
+    if (!isValidInput(endpoint, candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+function sampleInput(endpoint: EndpointDefinition, seed: number): unknown {
+  if (!hasRequestParts(endpoint)) {
+    return endpoint.request ? generateSample(endpoint.request, { seed }) : undefined;
+  }
+
+  const input: Record<string, unknown> = {};
+  for (const part of REQUEST_PARTS) {
+    const schema = endpoint[part];
+    if (schema) {
+      input[part] = generateSample(schema, { seed });
+    }
+  }
+  return input;
+}
+
+// Look up `client.users.getById.raw` from a dotted key
+function resolveRaw(
+  client: unknown,
+  key: string
+): (input?: unknown) => Promise<ZodseiResponse<unknown>> {
+  const method = key
+    .split('.')
+    .reduce<unknown>((target, part) => (target as Record<string, unknown>)[part], client);
+  return (method as { raw: (input?: unknown) => Promise<ZodseiResponse<unknown>> }).raw;
+}
+
+/**
+ * Send generated valid and invalid requests for every endpoint and report responses that
+ * break the contract (response schema mismatches and 5xx)
+ *
+ * Requests go out unvalidated, so invalid payloads reach the service; it is expected to reject
+ * them with 4xx.
+ */
+export async function fuzzContract<T extends Contract>(
+  contract: T,
+  options: FuzzOptions<T>
+): Promise<FuzzReport> {
+  const { adapter, runs = 10, seed = 1, invalid = true, endpoints, middleware } = options;
+  const client = createClient(contract, {
+    adapter,
+    middleware,
+    validateRequest: false,
+    validateResponse: true,
+  });
+
+  const report: FuzzReport = { ok: true, requests: 0, endpoints: {}, failures: [] };
+  const selected = flattenContract(contract).filter(
+    ({ key }) => !endpoints || (endpoints as string[]).includes(key)
+  );
+
+  for (const { key, endpoint } of selected) {
+    const stats: FuzzEndpointStats = { requests: 0, rejected: 0, failures: 0 };
+    report.endpoints[key] = stats;
+    const raw = resolveRaw(client, key);
+
+    for (let run = 0; run < runs; run++) {
+      const runSeed = hashSeed(`${seed}:${key}:${run}`);
+      const validInput = sampleInput(endpoint, runSeed);
+      const requests: Array<{ valid: boolean; input: unknown }> = [
+        { valid: true, input: validInput },
+      ];
+
+      if (invalid && hasRequestInput(endpoint)) {
+        const input = invalidInput(endpoint, validInput, new SeededRandom(runSeed));
+        if (input !== undefined) {
+          requests.push({ valid: false, input });
+        }
+      }
+
+      for (const { valid, input } of requests) {
+        stats.requests++;
+        report.requests++;
+
+        try {
+          await raw(input);
+        } catch (error) {
+          const failure = classify(error);
+          if (!failure) {
+            if (!valid) stats.rejected++;
+            continue;
+          }
+          stats.failures++;
+          report.failures.push({ endpoint: key, valid, input, ...failure });
+        }
+      }
+    }
+  }
+
+  report.ok = report.failures.length === 0;
+  return report;
+}
+
+// Map an endpoint error to a failure, or null when it is an acceptable rejection
+function classify(error: unknown): Pick<FuzzFailure, 'kind' | 'status' | 'error'> | null {
+  if (error instanceof ValidationError) {
+    // Request validation failures come from in-process adapters (MockAdapter) rejecting input
+    return error.type === 'response' ? { kind: 'response-schema', error } : null;
+  }
+  if (error instanceof HttpError) {
+    return error.status >= 500 ? { kind: 'server-error', status: error.status, error } : null;
+  }
+  return { kind: 'error', error: ZodseiError.from(error) };
+}
@@ -21,16 +21,33 @@ export {
 export type {
   Contract,
   EndpointDefinition,
+  EndpointCacheOptions,
   ClientConfig,
   ApiClient,
   EnhancedApiClient,
   EndpointMethodWithSchema,
   HttpMethod,
+  ResponseSchemas,
+  RequestPart,
+  InferRequestParts,
+  InferRequestPartsInput,
+  InferErrorType,
+  InferEndpointError,
+  InferEndpointResult,
+  ZodseiResult,
+  ZodseiResponse,
+  EndpointArgs,
   RequestContext,
   ResponseContext,
+  RequestOptions,
   Middleware,
+  HttpAdapter,
+  ContractEndpointKey,
+  ContractEndpoint,
   ExtractPathParams,
   SeparateRequestData,
+  MissingPathParams,
+  ValidateContract,
 } from './types';
 
 // Error class exports
@@ -41,6 +58,9 @@ export {
   NetworkError,
   ConfigError,
   TimeoutError,
+  CircuitOpenError,
+  AuthError,
+  AbortError,
 } from './errors';
 
 // Validation utility exports
@@ -50,19 +70,74 @@ export {
   safeParseRequest,
   safeParseResponse,
   createValidator,
+  getResponseSchema,
+  getSuccessResponse,
+  validateRequestParts,
+  validateIncomingRequest,
 } from './validation';
 
+// Sample data exports
+export { generateSample, type SampleOptions } from './sample';
+
+// Fuzzing exports
+export {
+  fuzzContract,
+  type FuzzOptions,
+  type FuzzReport,
+  type FuzzFailure,
+  type FuzzEndpointStats,
+} from './fuzz';
+
 // Middleware exports
 export { createMiddlewareExecutor, composeMiddleware } from './middleware';
-export { retryMiddleware, simpleRetry } from './middleware/retry';
+export { retryMiddleware, simpleRetry, defaultRetryCondition } from './middleware/retry';
+export { timeoutMiddleware, runWithTimeout, type TimeoutConfig } from './middleware/timeout';
+export { dedupeMiddleware, type DedupeConfig } from './middleware/dedupe';
+export { authMiddleware, type AuthConfig } from './middleware/auth';
+export {
+  loggingMiddleware,
+  DEFAULT_REDACTED_HEADERS,
+  DEFAULT_REDACTED_QUERY,
+  type Logger,
+  type LogLevel,
+  type LoggingConfig,
+  type LogRecord,
+} from './middleware/logging';
+export {
+  circuitBreakerMiddleware,
+  type CircuitBreakerConfig,
+  type CircuitState,
+} from './middleware/circuit-breaker';
+export {
+  rateLimitMiddleware,
+  type RateLimitConfig,
+  type RateLimitPriority,
+} from './middleware/rate-limit';
 export {
   cacheMiddleware,
   simpleCache,
   MemoryCacheStorage,
+  defaultKeyGenerator,
   type CacheConfig,
   type CacheStorage,
   type CacheEntry,
+  type CacheStats,
+  type MemoryCacheOptions,
 } from './middleware/cache';
+export { httpCacheMiddleware, type HttpCacheConfig } from './middleware/http-cache';
+
+// OpenAPI exports
+export {
+  toOpenAPI,
+  toOpenAPIPath,
+  generateContractSource,
+  type OpenAPIOptions,
+  type CodegenOptions,
+  type OpenAPIDocument,
+  type OpenAPIOperation,
+  type OpenAPIParameter,
+  type JsonSchema,
+} from './openapi';
 
 // Utility function exports
 export {
@@ -72,12 +147,32 @@ export {
   buildUrl,
   separateParams,
   shouldHaveBody,
+  matchPath,
 } from './utils/path';
 
-export { mergeHeaders } from './utils/request';
+export {
+  flattenContract,
+  getEndpointByKey,
+  hasRequestParts,
+  createRouteTable,
+  matchRoute,
+  type ContractRoute,
+} from './utils/contract';
+
+export { mergeHeaders, getHeader, getRetryDelay, type RequestScope } from './utils/request';
 
 // Adapter exports
 export { AxiosAdapter } from './adapters/axios';
+export { FetchAdapter, type FetchAdapterConfig } from './adapters/fetch';
+export {
+  MockAdapter,
+  createMockClient,
+  mockResponse,
+  type MockHandler,
+  type MockHandlers,
+  type MockCall,
+  type MockResponse,
+} from './adapters/mock';
 
 // Re-export zod for user convenience
 export { z } from 'zod';
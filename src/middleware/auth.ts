@@ -0,0 +1,87 @@
+import type { Middleware, RequestContext } from '../types';
+import { AuthError, HttpError } from '../errors';
+
+type TokenResult = string | null | undefined;
+
+/**
+ * Auth middleware configuration
+ */
+export interface AuthConfig {
+  getToken: () => TokenResult | Promise<TokenResult>;
+  refreshToken: () => Promise<string>; // Obtain (and store) a new token, and return it
+  shouldRefresh?: (error: Error) => boolean; // default: HTTP 401
+  header?: string; // default: 'Authorization'
+  scheme?: string; // Token prefix (default: 'Bearer'); '' sends the bare token
+}
+
+// Default refresh condition
+function defaultShouldRefresh(error: Error): boolean {
+  return error instanceof HttpError && error.status === 401;
+}
+
+/**
+ * Create auth middleware
+ *
+ * Sends the token from `getToken` with every request. When a request fails with 401, a single
+ * `refreshToken` call runs however many requests failed at once; requests made meanwhile wait for
+ * it. Failed requests are then replayed once with the new token. A failed refresh rejects every
+ * waiting request with `AuthError`.
+ */
+export function authMiddleware(config: AuthConfig): Middleware {
+  const {
+    getToken,
+    refreshToken,
+    shouldRefresh = defaultShouldRefresh,
+    header = 'Authorization',
+    scheme = 'Bearer',
+  } = config;
+
+  let refreshing: Promise<string> | undefined;
+  let refreshedToken: string | undefined;
+  let generation = 0; // Successful refreshes so far
+
+  const refresh = (): Promise<string> => {
+    refreshing ??= Promise.resolve()
+      .then(refreshToken)
+      .then(
+        (token) => {
+          refreshedToken = token;
+          generation++;
+          return token;
+        },
+        (error: unknown) => {
+          throw new AuthError('Token refresh failed', error);
+        }
+      )
+      .finally(() => {
+        refreshing = undefined;
+      });
+    return refreshing;
+  };
+
+  const withToken = (request: RequestContext, token: TokenResult): RequestContext =>
+    token
+      ? {
+          ...request,
+          headers: { ...request.headers, [header]: scheme ? `${scheme} ${token}` : token },
+        }
+      : request;
+
+  return async (request, next) => {
+    // Requests made during a refresh wait for its token
+    const token = refreshing ? await refreshing : await getToken();
+    const sentGeneration = generation;
+
+    try {
+      return await next(withToken(request, token));
+    } catch (error) {
+      if (!(error instanceof Error) || !shouldRefresh(error)) {
+        throw error;
+      }
+
+      // Reuse a refresh that completed or started since this request was sent
+      const freshToken = generation !== sentGeneration ? refreshedToken : await refresh();
+      return next(withToken(request, freshToken));
+    }
+  };
+}
@@ -1,10 +1,13 @@
 import type { Middleware, RequestContext, ResponseContext } from '../types';
+import { defaultRetryCondition } from './retry';
 
 /**
  * Cache middleware configuration
  */
 export interface CacheConfig {
   ttl: number; // Cache time (milliseconds)
+  staleWhileRevalidate?: number; // Serve expired entries this long while refreshing in the background
+  staleIfError?: number; // Serve expired entries this long when the request fails with an outage
   keyGenerator?: (request: RequestContext) => string;
   shouldCache?: (request: RequestContext, response: ResponseContext) => boolean;
   storage?: CacheStorage;
@@ -18,6 +21,26 @@ export interface CacheStorage {
   set(key: string, entry: CacheEntry): Promise<void>;
   delete(key: string): Promise<void>;
   clear(): Promise<void>;
+  deleteByTag?(tag: string): Promise<void>; // Delete entries whose `tags` include `tag`
+  stats?(): CacheStats;
+}
+
+/**
+ * Cache storage counters
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number; // Lookups that found nothing or an expired entry
+  evictions: number; // Entries dropped by the storage itself (expired or over its bounds)
+}
+
+/**
+ * Memory cache storage options
+ */
+export interface MemoryCacheOptions {
+  maxEntries?: number; // default: unlimited
+  maxSize?: number; // Approximate total size of entries (characters of JSON), default: unlimited
+  sweepInterval?: number; // Remove expired entries every this many milliseconds (default: off)
 }
 
 /**
@@ -27,40 +50,86 @@ export interface CacheEntry {
   data: ResponseContext;
   timestamp: number;
   ttl: number;
+  stale?: number; // Time the entry is kept after `ttl` to be served stale (milliseconds)
+  tags?: readonly string[];
+  vary?: Record<string, string>; // Request header values the response varies on (httpCacheMiddleware)
+}
+
+// Whether an entry is past its ttl and stale window
+export function isExpired(entry: CacheEntry, now: number): boolean {
+  return now - entry.timestamp > entry.ttl + (entry.stale ?? 0);
 }
 
 /**
  * Memory cache storage implementation
+ *
+ * Least recently used entries are evicted once `maxEntries` or `maxSize` is exceeded.
  */
 export class MemoryCacheStorage implements CacheStorage {
   private cache = new Map<string, CacheEntry>();
+  private sizes = new Map<string, number>();
+  private totalSize = 0;
+  private counters: CacheStats = { hits: 0, misses: 0, evictions: 0 };
+  private sweeper: ReturnType<typeof setInterval> | undefined;
+
+  constructor(private readonly options: MemoryCacheOptions = {}) {
+    if (options.sweepInterval) {
+      this.sweeper = setInterval(() => this.cleanup(), options.sweepInterval);
+      // Do not keep Node.js processes alive just for sweeping
+      (this.sweeper as { unref?: () => void }).unref?.();
+    }
+  }
 
   async get(key: string): Promise<CacheEntry | null> {
     const entry = this.cache.get(key);
 
     if (!entry) {
+      this.counters.misses++;
       return null;
     }
 
     // Check if expired
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
+    if (isExpired(entry, Date.now())) {
+      this.remove(key);
+      this.counters.evictions++;
+      this.counters.misses++;
       return null;
     }
 
+    // Mark as most recently used
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.counters.hits++;
     return entry;
   }
 
   async set(key: string, entry: CacheEntry): Promise<void> {
+    this.remove(key);
     this.cache.set(key, entry);
+    if (this.options.maxSize !== undefined) {
+      const size = entrySize(entry);
+      this.sizes.set(key, size);
+      this.totalSize += size;
+    }
+    this.evictOverflow();
   }
 
   async delete(key: string): Promise<void> {
-    this.cache.delete(key);
+    this.remove(key);
   }
 
   async clear(): Promise<void> {
     this.cache.clear();
+    this.sizes.clear();
+    this.totalSize = 0;
+  }
+
+  async deleteByTag(tag: string): Promise<void> {
+    for (const [key, entry] of this.cache.entries()) {
+      if (entry.tags?.includes(tag)) {
+        this.remove(key);
+      }
+    }
   }
 
   // Get cache size
@@ -68,19 +137,57 @@ export class MemoryCacheStorage implements CacheStorage {
     return this.cache.size;
   }
 
+  stats(): CacheStats {
+    return { ...this.counters };
+  }
+
   // Clean expired cache
   cleanup(): void {
     const now = Date.now();
     for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
+      if (isExpired(entry, now)) {
+        this.remove(key);
+        this.counters.evictions++;
       }
     }
   }
+
+  // Stop periodic sweeping
+  dispose(): void {
+    clearInterval(this.sweeper);
+    this.sweeper = undefined;
+  }
+
+  private remove(key: string): void {
+    this.cache.delete(key);
+    this.totalSize -= this.sizes.get(key) ?? 0;
+    this.sizes.delete(key);
+  }
+
+  // Drop least recently used entries (first in map order) until within bounds
+  private evictOverflow(): void {
+    const { maxEntries = Infinity, maxSize = Infinity } = this.options;
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= maxEntries && this.totalSize <= maxSize) {
+        break;
+      }
+      this.remove(key);
+      this.counters.evictions++;
+    }
+  }
+}
+
+// Approximate entry size; unserializable data counts as empty
+function entrySize(entry: CacheEntry): number {
+  try {
+    return JSON.stringify(entry).length;
+  } catch {
+    return 0;
+  }
 }
 
-// Default cache key generator
-function defaultKeyGenerator(request: RequestContext): string {
+// Default cache key generator (method, URL, query and body)
+export function defaultKeyGenerator(request: RequestContext): string {
   const { url, method, body, query } = request;
   const parts = [method.toUpperCase(), url];
 
@@ -95,6 +202,9 @@ function defaultKeyGenerator(request: RequestContext): string {
   return parts.join('|');
 }
 
+// Tag index size (keys) below which expired keys are not swept
+const INDEX_SWEEP_SIZE = 100;
+
 // Default cache condition
 function defaultShouldCache(request: RequestContext, response: ResponseContext): boolean {
   // Only cache successful GET responses
@@ -103,36 +213,147 @@ function defaultShouldCache(request: RequestContext, response: ResponseContext):
 
 /**
  * Create cache middleware
+ *
+ * Expired entries can still be served within `staleWhileRevalidate` (refreshed in the background)
+ * or `staleIfError` (when the request fails with a network error, timeout or 5xx - the errors
+ * `defaultRetryCondition` retries). Responses are tagged with the endpoint's `cache.tags`; a
+ * successful call to an endpoint that `invalidates` a tag evicts its entries.
+ * Storages implementing `deleteByTag` look tags up themselves (so tags survive restarts with
+ * persistent storages); for others, tags are tracked in memory, per middleware instance.
  */
 export function cacheMiddleware(config: CacheConfig): Middleware {
   const {
     ttl,
+    staleWhileRevalidate = 0,
+    staleIfError = 0,
     keyGenerator = defaultKeyGenerator,
     shouldCache = defaultShouldCache,
     storage = new MemoryCacheStorage(),
   } = config;
+  const revalidating = new Set<string>();
+
+  // Tag index for storages without `deleteByTag`. Keys leave it when they miss, expire or are
+  // invalidated; expired keys are swept whenever the index doubles in size.
+  const taggedKeys = new Map<string, Set<string>>();
+  const keyTags = new Map<string, { tags: readonly string[]; expires: number }>();
+  let sweepSize = INDEX_SWEEP_SIZE;
+
+  const untrack = (cacheKey: string) => {
+    for (const tag of keyTags.get(cacheKey)?.tags ?? []) {
+      const keys = taggedKeys.get(tag);
+      keys?.delete(cacheKey);
+      if (keys?.size === 0) taggedKeys.delete(tag);
+    }
+    keyTags.delete(cacheKey);
+  };
+
+  const sweep = () => {
+    const now = Date.now();
+    for (const [cacheKey, { expires }] of keyTags) {
+      if (expires < now) untrack(cacheKey);
+    }
+  };
+
+  const track = (cacheKey: string, entry: CacheEntry) => {
+    untrack(cacheKey);
+    if (storage.deleteByTag || !entry.tags?.length) {
+      return;
+    }
+    if (keyTags.size >= sweepSize) {
+      sweep();
+      sweepSize = Math.max(INDEX_SWEEP_SIZE, keyTags.size * 2);
+    }
+    keyTags.set(cacheKey, {
+      tags: entry.tags,
+      expires: entry.timestamp + entry.ttl + (entry.stale ?? 0),
+    });
+    for (const tag of entry.tags) {
+      if (!taggedKeys.has(tag)) taggedKeys.set(tag, new Set());
+      taggedKeys.get(tag)!.add(cacheKey);
+    }
+  };
+
+  const store = async (cacheKey: string, request: RequestContext, response: ResponseContext) => {
+    if (!shouldCache(request, response)) {
+      return;
+    }
+
+    const tags = request.cache?.tags;
+    const entry: CacheEntry = {
+      data: response,
+      timestamp: Date.now(),
+      ttl,
+      stale: Math.max(staleWhileRevalidate, staleIfError),
+      tags,
+    };
+
+    await storage.set(cacheKey, entry);
+    track(cacheKey, entry);
+  };
+
+  const invalidate = async (tags: readonly string[]) => {
+    sweep();
+    for (const tag of tags) {
+      if (storage.deleteByTag) {
+        await storage.deleteByTag(tag);
+        continue;
+      }
+      const keys = [...(taggedKeys.get(tag) ?? [])];
+      keys.forEach(untrack);
+      await Promise.all(keys.map((key) => storage.delete(key)));
+    }
+  };
+
+  // Refresh an entry without blocking the caller; failures keep the stale entry
+  const revalidate = (
+    cacheKey: string,
+    request: RequestContext,
+    next: Parameters<Middleware>[1]
+  ) => {
+    if (revalidating.has(cacheKey)) {
+      return;
+    }
+    revalidating.add(cacheKey);
+    next(request)
+      .then((response) => store(cacheKey, request, response))
+      .catch(() => undefined)
+      .finally(() => revalidating.delete(cacheKey));
+  };
 
   return async (request, next) => {
     const cacheKey = keyGenerator(request);
 
     // Try to get from cache
     const cachedEntry = await storage.get(cacheKey);
-    if (cachedEntry) {
+    if (!cachedEntry) {
+      // Expired, evicted or deleted by the storage
+      untrack(cacheKey);
+    }
+    const age = cachedEntry ? Date.now() - cachedEntry.timestamp : Infinity;
+    if (cachedEntry && age <= cachedEntry.ttl) {
+      return cachedEntry.data;
+    }
+    if (cachedEntry && age <= cachedEntry.ttl + staleWhileRevalidate) {
+      revalidate(cacheKey, request, next);
       return cachedEntry.data;
     }
 
     // Execute request
-    const response = await next(request);
-
-    // Check if should cache
-    if (shouldCache(request, response)) {
-      const entry: CacheEntry = {
-        data: response,
-        timestamp: Date.now(),
-        ttl,
-      };
+    let response: ResponseContext;
+    try {
+      response = await next(request);
+    } catch (error) {
+      // Only outages (network errors, timeouts, 5xx); 4xx answers and aborts are final
+      const outage = error instanceof Error && defaultRetryCondition(error);
+      if (outage && cachedEntry && age <= cachedEntry.ttl + staleIfError) {
+        return cachedEntry.data;
+      }
+      throw error;
+    }
 
-      await storage.set(cacheKey, entry);
+    await store(cacheKey, request, response);
+    if (request.invalidates?.length) {
+      await invalidate(request.invalidates);
     }
 
     return response;
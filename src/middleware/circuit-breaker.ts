@@ -0,0 +1,130 @@
+import type { Middleware } from '../types';
+import { CircuitOpenError, HttpError } from '../errors';
+import { defaultRetryCondition } from './retry';
+import { getScopeKey, type RequestScope } from '../utils/request';
+
+/**
+ * Circuit state
+ *
+ * - `closed`: requests go through, failures are counted
+ * - `open`: requests fail fast with `CircuitOpenError` until `resetTimeout` has passed
+ * - `half-open`: a limited number of trial requests decide whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker middleware configuration
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold?: number; // Consecutive failures that open the circuit (default: 5)
+  resetTimeout?: number; // Time the circuit stays open (milliseconds, default: 30000)
+  halfOpenMax?: number; // Trial requests while half-open; all must succeed to close (default: 1)
+  scope?: RequestScope; // default: 'endpoint'
+  isFailure?: (error: Error) => boolean;
+  onStateChange?: (key: string, state: CircuitState, previous: CircuitState) => void;
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  trials: number; // Trial requests started while half-open
+  successes: number; // Trial requests that succeeded
+}
+
+/**
+ * Create circuit breaker middleware
+ *
+ * Failures are counted per endpoint or per URL origin (`scope`); by default the same errors
+ * `retryMiddleware` retries count as failures. Place it after `retryMiddleware` so every attempt
+ * is counted and open circuits stop the retries.
+ */
+export function circuitBreakerMiddleware(config: CircuitBreakerConfig = {}): Middleware {
+  const {
+    failureThreshold = 5,
+    resetTimeout = 30000,
+    halfOpenMax = 1,
+    scope = 'endpoint',
+    isFailure = defaultRetryCondition,
+    onStateChange,
+  } = config;
+  const circuits = new Map<string, Circuit>();
+
+  const transition = (key: string, circuit: Circuit, state: CircuitState) => {
+    const previous = circuit.state;
+    circuit.state = state;
+    circuit.failures = 0;
+    circuit.trials = 0;
+    circuit.successes = 0;
+    if (state === 'open') {
+      circuit.openedAt = Date.now();
+    }
+    onStateChange?.(key, state, previous);
+  };
+
+  const onSuccess = (key: string, circuit: Circuit, trial: boolean) => {
+    if (!trial) {
+      circuit.failures = 0;
+    } else if (circuit.state === 'half-open' && ++circuit.successes >= halfOpenMax) {
+      transition(key, circuit, 'closed');
+    }
+  };
+
+  const onFailure = (key: string, circuit: Circuit, trial: boolean) => {
+    if (trial) {
+      if (circuit.state === 'half-open') {
+        transition(key, circuit, 'open');
+      }
+    } else if (circuit.state === 'closed' && ++circuit.failures >= failureThreshold) {
+      transition(key, circuit, 'open');
+    }
+  };
+
+  const release = (circuit: Circuit, trial: boolean) => {
+    if (trial && circuit.state === 'half-open' && circuit.trials > 0) {
+      circuit.trials--;
+    }
+  };
+
+  return async (request, next) => {
+    const key = getScopeKey(request, scope);
+    let circuit = circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: 0, openedAt: 0, trials: 0, successes: 0 };
+      circuits.set(key, circuit);
+    }
+
+    if (circuit.state === 'open') {
+      const remaining = circuit.openedAt + resetTimeout - Date.now();
+      if (remaining > 0) {
+        throw new CircuitOpenError(key, remaining);
+      }
+      transition(key, circuit, 'half-open');
+    }
+
+    const trial = circuit.state === 'half-open';
+    if (trial) {
+      if (circuit.trials >= halfOpenMax) {
+        throw new CircuitOpenError(key, 0);
+      }
+      circuit.trials++;
+    }
+
+    try {
+      const response = await next(request);
+      onSuccess(key, circuit, trial);
+      return response;
+    } catch (error) {
+      if (error instanceof Error && isFailure(error)) {
+        onFailure(key, circuit, trial);
+      } else if (error instanceof HttpError) {
+        // The service answered; only failures count against it
+        onSuccess(key, circuit, trial);
+      } else {
+        // No answer either way (e.g. the caller aborted): free the trial slot, count nothing
+        release(circuit, trial);
+      }
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,95 @@
+import type { Middleware, RequestContext, ResponseContext } from '../types';
+import { AbortError } from '../errors';
+import { defaultKeyGenerator } from './cache';
+
+/**
+ * Deduplication middleware configuration
+ */
+export interface DedupeConfig {
+  keyGenerator?: (request: RequestContext) => string;
+  shouldDedupe?: (request: RequestContext) => boolean;
+}
+
+// Default dedupe condition
+function defaultShouldDedupe(request: RequestContext): boolean {
+  // Only share GET requests, and let calls opt out with `meta: { dedupe: false }`
+  return request.method.toLowerCase() === 'get' && request.meta?.dedupe !== false;
+}
+
+// In-flight request shared by identical calls
+interface SharedRequest {
+  promise: Promise<ResponseContext>;
+  controller: AbortController; // Aborted once every waiting caller has aborted
+  waiting: number;
+}
+
+/**
+ * Create request deduplication middleware
+ *
+ * Identical requests made while one is in flight share its response (or its error) instead of
+ * hitting the network again. Nothing is kept once the request settles; combine with
+ * `cacheMiddleware` to reuse responses afterwards.
+ *
+ * Each caller stops waiting when its own signal aborts; the shared request itself is only aborted
+ * once every caller waiting on it has aborted.
+ */
+export function dedupeMiddleware(config: DedupeConfig = {}): Middleware {
+  const { keyGenerator = defaultKeyGenerator, shouldDedupe = defaultShouldDedupe } = config;
+  const inFlight = new Map<string, SharedRequest>();
+
+  const share = (
+    key: string,
+    request: RequestContext,
+    next: (request: RequestContext) => Promise<ResponseContext>
+  ): SharedRequest => {
+    const controller = new AbortController();
+    const shared: SharedRequest = {
+      controller,
+      waiting: 0,
+      promise: next({ ...request, signal: controller.signal }).finally(() => {
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+      }),
+    };
+    inFlight.set(key, shared);
+    return shared;
+  };
+
+  const wait = (
+    key: string,
+    shared: SharedRequest,
+    signal: AbortSignal | undefined
+  ): Promise<ResponseContext> => {
+    shared.waiting++;
+    if (!signal) {
+      return shared.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(new AbortError('Request aborted', signal.reason));
+        if (--shared.waiting === 0) {
+          if (inFlight.get(key) === shared) inFlight.delete(key);
+          shared.controller.abort(signal.reason);
+        }
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  };
+
+  return (request, next) => {
+    if (!shouldDedupe(request)) {
+      return next(request);
+    }
+
+    const key = keyGenerator(request);
+    return wait(key, inFlight.get(key) ?? share(key, request, next), request.signal);
+  };
+}
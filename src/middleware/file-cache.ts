@@ -0,0 +1,128 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { createHash, randomUUID } from 'node:crypto';
+import { join } from 'node:path';
+import { isExpired, type CacheEntry, type CacheStats, type CacheStorage } from './cache';
+
+/**
+ * File-system cache storage (Node.js only)
+ */
+
+interface StoredEntry {
+  key: string;
+  entry: CacheEntry;
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Cache storage persisting each entry as a JSON file in a directory
+ *
+ * Entries survive process restarts, so CLI tools keep their cache between runs. Expired files
+ * are removed when read or by `cleanup()`. Response data must be JSON-serializable.
+ */
+export class FileCacheStorage implements CacheStorage {
+  private counters: CacheStats = { hits: 0, misses: 0, evictions: 0 };
+
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const stored = await this.read(this.pathFor(key));
+
+    if (!stored || stored.key !== key) {
+      this.counters.misses++;
+      return null;
+    }
+
+    if (isExpired(stored.entry, Date.now())) {
+      await this.delete(key);
+      this.counters.evictions++;
+      this.counters.misses++;
+      return null;
+    }
+
+    this.counters.hits++;
+    return stored.entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const path = this.pathFor(key);
+    const stored: StoredEntry = { key, entry };
+
+    // Write then rename, so readers never see a partial file; concurrent writes use their own
+    // temporary file and the last rename wins
+    const temporary = `${path}.${randomUUID()}.tmp`;
+    await writeFile(temporary, JSON.stringify(stored), 'utf8');
+    await rename(temporary, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await this.files()) {
+      await rm(join(this.directory, file), { force: true });
+    }
+  }
+
+  async deleteByTag(tag: string): Promise<void> {
+    for (const file of await this.files()) {
+      const path = join(this.directory, file);
+      const stored = await this.read(path);
+      if (stored?.entry.tags?.includes(tag)) {
+        await rm(path, { force: true });
+      }
+    }
+  }
+
+  stats(): CacheStats {
+    return { ...this.counters };
+  }
+
+  // Remove expired and unreadable entries
+  async cleanup(): Promise<void> {
+    const now = Date.now();
+    for (const file of await this.files()) {
+      const path = join(this.directory, file);
+      const stored = await this.read(path);
+      if (!stored || isExpired(stored.entry, now)) {
+        await rm(path, { force: true });
+        this.counters.evictions++;
+      }
+    }
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      return (await readdir(this.directory)).filter((file) => file.endsWith('.json'));
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  }
+
+  // Read a stored entry; missing or corrupt files read as null
+  private async read(path: string): Promise<StoredEntry | null> {
+    let source: string;
+    try {
+      source = await readFile(path, 'utf8');
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+
+    try {
+      return JSON.parse(source) as StoredEntry;
+    } catch {
+      await rm(path, { force: true });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import type { Middleware, RequestContext, ResponseContext } from '../types';
+import { HttpError } from '../errors';
+import { getHeader } from '../utils/request';
+import {
+  defaultKeyGenerator,
+  MemoryCacheStorage,
+  type CacheEntry,
+  type CacheStorage,
+} from './cache';
+
+/**
+ * HTTP cache middleware configuration
+ */
+export interface HttpCacheConfig {
+  storage?: CacheStorage;
+  keyGenerator?: (request: RequestContext) => string;
+  shared?: boolean; // Shared cache: skip `private` responses, prefer `s-maxage` (default: false)
+  retain?: number; // Time stale entries with validators are kept to revalidate (default: 1 day)
+}
+
+// Response statuses stored by the cache (errors never reach it)
+const CACHEABLE_STATUSES = [200, 203, 204];
+
+// Parse a Cache-Control header into its directives, e.g. { 'max-age': '60', 'no-cache': true }
+function parseCacheControl(value: string | undefined): Record<string, string | true> {
+  const directives: Record<string, string | true> = {};
+  for (const part of (value ?? '').split(',')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name) {
+      directives[name.toLowerCase()] =
+        rest.length > 0 ? rest.join('=').replace(/^"|"$/g, '') : true;
+    }
+  }
+  return directives;
+}
+
+// Delta-seconds directive value; bare or non-numeric directives count as absent
+function deltaSeconds(value: string | true | undefined): number {
+  return typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+}
+
+// Freshness lifetime (milliseconds) from max-age / s-maxage / Expires, minus the response's Age
+function freshnessLifetime(headers: Record<string, string>, shared: boolean): number {
+  const directives = parseCacheControl(getHeader(headers, 'cache-control'));
+  if (directives['no-cache']) {
+    return 0;
+  }
+
+  const age = Number(getHeader(headers, 'age')) || 0;
+  const sharedMaxAge = shared ? deltaSeconds(directives['s-maxage']) : NaN;
+  const maxAge = Number.isFinite(sharedMaxAge) ? sharedMaxAge : deltaSeconds(directives['max-age']);
+  if (Number.isFinite(maxAge)) {
+    return Math.max(0, (maxAge - age) * 1000);
+  }
+
+  const expires = Date.parse(getHeader(headers, 'expires') ?? '');
+  if (!Number.isNaN(expires)) {
+    const date = Date.parse(getHeader(headers, 'date') ?? '');
+    return Math.max(0, expires - (Number.isNaN(date) ? Date.now() : date));
+  }
+
+  return 0;
+}
+
+function hasValidators(headers: Record<string, string>): boolean {
+  return (
+    getHeader(headers, 'etag') !== undefined || getHeader(headers, 'last-modified') !== undefined
+  );
+}
+
+// Request header values named by the response's Vary header, or null for `Vary: *`
+function varyValues(
+  request: RequestContext,
+  response: ResponseContext
+): Record<string, string> | null {
+  const names = (getHeader(response.headers, 'vary') ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (names.includes('*')) {
+    return null;
+  }
+  return Object.fromEntries(names.map((name) => [name, getHeader(request.headers, name) ?? '']));
+}
+
+function matchesVary(entry: CacheEntry, request: RequestContext): boolean {
+  return Object.entries(entry.vary ?? {}).every(
+    ([name, value]) => (getHeader(request.headers, name) ?? '') === value
+  );
+}
+
+// Conditional request headers for revalidating an entry
+function conditionalHeaders(entry: CacheEntry): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const etag = getHeader(entry.data.headers, 'etag');
+  const lastModified = getHeader(entry.data.headers, 'last-modified');
+  if (etag !== undefined) headers['If-None-Match'] = etag;
+  if (lastModified !== undefined) headers['If-Modified-Since'] = lastModified;
+  return headers;
+}
+
+/**
+ * Create HTTP cache middleware
+ *
+ * Caches GET/HEAD responses as the server describes them: `Cache-Control` (`max-age`,
+ * `s-maxage`, `no-store`, `no-cache`, `private`), `Expires` and `Vary`. Stale entries with an
+ * `ETag` or `Last-Modified` are revalidated with `If-None-Match` / `If-Modified-Since`; a `304`
+ * refreshes the entry and resolves to the cached response. Requests sending
+ * `Cache-Control: no-store` bypass the cache, `no-cache` forces revalidation.
+ */
+export function httpCacheMiddleware(config: HttpCacheConfig = {}): Middleware {
+  const {
+    storage = new MemoryCacheStorage(),
+    keyGenerator = defaultKeyGenerator,
+    shared = false,
+    retain = 24 * 60 * 60 * 1000,
+  } = config;
+
+  // Store a response if its headers allow it
+  const store = async (
+    cacheKey: string,
+    request: RequestContext,
+    response: ResponseContext
+  ): Promise<void> => {
+    const directives = parseCacheControl(getHeader(response.headers, 'cache-control'));
+    const vary = varyValues(request, response);
+    if (
+      !CACHEABLE_STATUSES.includes(response.status) ||
+      directives['no-store'] ||
+      (shared && directives['private']) ||
+      vary === null
+    ) {
+      await storage.delete(cacheKey);
+      return;
+    }
+
+    const ttl = freshnessLifetime(response.headers, shared);
+    const validators = hasValidators(response.headers);
+    if (ttl === 0 && !validators) {
+      await storage.delete(cacheKey);
+      return;
+    }
+
+    await storage.set(cacheKey, {
+      data: response,
+      timestamp: Date.now(),
+      ttl,
+      stale: validators ? retain : 0,
+      vary,
+    });
+  };
+
+  // Refresh a revalidated entry with the 304's headers and return the cached response
+  const refresh = async (
+    cacheKey: string,
+    entry: CacheEntry,
+    notModified: Record<string, string>
+  ): Promise<ResponseContext> => {
+    const headers = { ...entry.data.headers, ...notModified };
+    if (getHeader(notModified, 'age') === undefined) {
+      // The stored Age no longer applies to the refreshed entry
+      for (const name of Object.keys(headers)) {
+        if (name.toLowerCase() === 'age') delete headers[name];
+      }
+    }
+    const data = { ...entry.data, headers };
+    await storage.set(cacheKey, {
+      ...entry,
+      data,
+      timestamp: Date.now(),
+      ttl: freshnessLifetime(data.headers, shared),
+    });
+    return data;
+  };
+
+  return async (request, next) => {
+    const method = request.method.toLowerCase();
+    const requestDirectives = parseCacheControl(getHeader(request.headers, 'cache-control'));
+    if ((method !== 'get' && method !== 'head') || requestDirectives['no-store']) {
+      return next(request);
+    }
+
+    const cacheKey = keyGenerator(request);
+    const cached = await storage.get(cacheKey);
+    const entry = cached && matchesVary(cached, request) ? cached : null;
+
+    if (entry && !requestDirectives['no-cache'] && Date.now() - entry.timestamp < entry.ttl) {
+      return entry.data;
+    }
+
+    // Revalidate stale entries that carry validators
+    const conditional = entry && hasValidators(entry.data.headers);
+    const outgoing = conditional
+      ? { ...request, headers: { ...request.headers, ...conditionalHeaders(entry) } }
+      : request;
+
+    let response: ResponseContext;
+    try {
+      response = await next(outgoing);
+    } catch (error) {
+      // Adapters that only accept 2xx report 304 as an HttpError
+      if (conditional && error instanceof HttpError && error.status === 304) {
+        return refresh(cacheKey, entry, error.headers);
+      }
+      throw error;
+    }
+
+    if (conditional && response.status === 304) {
+      return refresh(cacheKey, entry, response.headers);
+    }
+
+    await store(cacheKey, request, response);
+    return response;
+  };
+}
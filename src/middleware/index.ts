@@ -17,18 +17,17 @@ export class MiddlewareExecutor {
       return finalHandler(request);
     }
 
-    let index = 0;
-
-    const next = async (req: RequestContext): Promise<ResponseContext> => {
+    // Each `next` continues from its own position, so middleware may call it more than once
+    const dispatch = async (index: number, req: RequestContext): Promise<ResponseContext> => {
       if (index >= this.middleware.length) {
         return finalHandler(req);
       }
 
-      const middleware = this.middleware[index++];
-      return middleware(req, next);
+      const middleware = this.middleware[index];
+      return middleware(req, (nextReq) => dispatch(index + 1, nextReq));
     };
 
-    return next(request);
+    return dispatch(0, request);
   }
 
   // Add middleware
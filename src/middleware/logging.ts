@@ -0,0 +1,221 @@
+import type { Middleware } from '../types';
+import { HttpError } from '../errors';
+import { getHeader } from '../utils/request';
+
+/**
+ * Logger accepted by the logging middleware (console, pino, winston, ...)
+ */
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Logging middleware configuration
+ */
+export interface LoggingConfig {
+  logger?: Logger; // default: console
+  level?: LogLevel; // For successful requests (default: 'info'); 4xx use 'warn', failures 'error'
+  redact?: {
+    headers?: string[]; // Header names, case-insensitive (default: DEFAULT_REDACTED_HEADERS)
+    query?: string[]; // Query parameters in `url`, case-insensitive (default: DEFAULT_REDACTED_QUERY)
+    paths?: string[]; // Body paths such as `password`, `user.token` or `items[*].secret`
+  };
+  bodies?: boolean; // Include (redacted) request and response bodies (default: false)
+}
+
+/**
+ * Structured record emitted once per request and once per response
+ */
+export interface LogRecord {
+  type: 'request' | 'response';
+  message: string;
+  method: string;
+  url: string;
+  endpoint?: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  size?: number; // Body size in bytes (request or response)
+  status?: number;
+  duration?: number; // Milliseconds (responses only)
+  error?: string; // Error class name
+  errorMessage?: string;
+}
+
+export const DEFAULT_REDACTED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+];
+
+export const DEFAULT_REDACTED_QUERY = [
+  'access_token',
+  'api_key',
+  'apikey',
+  'password',
+  'secret',
+  'signature',
+  'token',
+];
+
+const REDACTED = '[REDACTED]';
+
+function redactHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+  const lower = names.map((name) => name.toLowerCase());
+  return Object.fromEntries(
+    Object.entries(headers).map(([key, value]) => [
+      key,
+      lower.includes(key.toLowerCase()) ? REDACTED : value,
+    ])
+  );
+}
+
+// Replace the values of the named query parameters in a URL, keeping everything else as sent
+function redactUrl(url: string, names: string[]): string {
+  const start = url.indexOf('?');
+  if (start === -1 || names.length === 0) {
+    return url;
+  }
+
+  const lower = names.map((name) => name.toLowerCase());
+  const end = url.indexOf('#', start);
+  const search = url.slice(start + 1, end === -1 ? undefined : end);
+  const redacted = search
+    .split('&')
+    .map((pair) => {
+      const name = pair.split('=')[0];
+      let decoded = name;
+      try {
+        decoded = decodeURIComponent(name.replace(/\+/g, ' '));
+      } catch {
+        // Keep malformed names as sent
+      }
+      return lower.includes(decoded.toLowerCase()) ? `${name}=${REDACTED}` : pair;
+    })
+    .join('&');
+  return `${url.slice(0, start + 1)}${redacted}${end === -1 ? '' : url.slice(end)}`;
+}
+
+// `items[*].secret` / `$.items.*.secret` -> ['items', '*', 'secret']
+function parsePath(path: string): string[] {
+  return path
+    .replace(/^\$\.?/, '')
+    .replace(/\[([^\]]*)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+}
+
+// Copy of `value` with the given path replaced; the original is left untouched
+function redactPath(value: unknown, segments: string[]): unknown {
+  if (segments.length === 0) {
+    return REDACTED;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const [segment, ...rest] = segments;
+  const copy: Record<string, unknown> | unknown[] = Array.isArray(value)
+    ? [...value]
+    : { ...(value as Record<string, unknown>) };
+  const target = copy as Record<string, unknown>;
+  for (const key of Object.keys(copy)) {
+    if (segment === '*' || segment === key) {
+      target[key] = redactPath(target[key], rest);
+    }
+  }
+  return copy;
+}
+
+function redactBody(body: unknown, paths: string[][]): unknown {
+  return paths.reduce((value, segments) => redactPath(value, segments), body);
+}
+
+// Size in bytes of a body as it would be sent as JSON or text
+function byteSize(body: unknown): number | undefined {
+  if (body === undefined) {
+    return undefined;
+  }
+  try {
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    return text === undefined ? undefined : new TextEncoder().encode(text).length;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create logging middleware
+ *
+ * Emits one `LogRecord` per request and one per response (or failure) through
+ * `logger[level](record)`. Configured headers, query parameters and body paths are replaced by
+ * `[REDACTED]`. Bodies are only logged with `bodies: true`, as they often hold credentials.
+ * Place it last in the chain to log what is actually sent, including retries and auth headers.
+ */
+export function loggingMiddleware(config: LoggingConfig = {}): Middleware {
+  const { logger = console, level = 'info', redact = {}, bodies = false } = config;
+  const headerNames = redact.headers ?? DEFAULT_REDACTED_HEADERS;
+  const queryNames = redact.query ?? DEFAULT_REDACTED_QUERY;
+  const paths = (redact.paths ?? []).map(parsePath);
+
+  const emit = (logLevel: LogLevel, record: LogRecord) => logger[logLevel](record);
+  const bodyFields = (body: unknown) =>
+    bodies && body !== undefined ? { body: redactBody(body, paths) } : {};
+
+  return async (request, next) => {
+    const base = {
+      method: request.method.toUpperCase(),
+      url: redactUrl(request.url, queryNames),
+      endpoint: request.endpoint,
+    };
+    const requestLine = `${base.method} ${base.url}`;
+    emit(level, {
+      type: 'request',
+      message: requestLine,
+      ...base,
+      headers: redactHeaders(request.headers, headerNames),
+      ...bodyFields(request.body),
+      size: byteSize(request.body),
+    });
+
+    const start = Date.now();
+    try {
+      const response = await next(request);
+      const duration = Date.now() - start;
+      emit(level, {
+        type: 'response',
+        message: `${requestLine} ${response.status} (${duration}ms)`,
+        ...base,
+        headers: redactHeaders(response.headers, headerNames),
+        ...bodyFields(response.data),
+        size: Number(getHeader(response.headers, 'content-length')) || byteSize(response.data),
+        status: response.status,
+        duration,
+      });
+      return response;
+    } catch (error) {
+      const duration = Date.now() - start;
+      const status = error instanceof HttpError ? error.status : undefined;
+      const name = error instanceof Error ? error.name : typeof error;
+      emit(status !== undefined && status < 500 ? 'warn' : 'error', {
+        type: 'response',
+        message: `${requestLine} ${status ?? name} (${duration}ms)`,
+        ...base,
+        headers: error instanceof HttpError ? redactHeaders(error.headers, headerNames) : {},
+        ...bodyFields(error instanceof HttpError ? error.response : undefined),
+        size: error instanceof HttpError ? byteSize(error.response) : undefined,
+        status,
+        duration,
+        error: name,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+}
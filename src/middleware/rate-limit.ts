@@ -0,0 +1,155 @@
+import type { Middleware, RequestContext } from '../types';
+import { AbortError, HttpError } from '../errors';
+import { getHeader, getRetryDelay, getScopeKey, type RequestScope } from '../utils/request';
+
+/**
+ * Rate limit middleware configuration
+ */
+export interface RateLimitConfig {
+  requestsPerInterval?: number; // Requests started per interval (default: unlimited)
+  interval?: number; // Interval length (milliseconds, default: 1000)
+  maxConcurrent?: number; // Requests in flight at once (default: unlimited)
+  scope?: RequestScope; // Which requests share a limit (default: 'global')
+}
+
+/**
+ * Queue priority, read from `meta.priority`; higher numbers go first
+ */
+export type RateLimitPriority = 'high' | 'normal' | 'low' | number;
+
+const PRIORITIES: Record<string, number> = { high: 1, normal: 0, low: -1 };
+
+interface QueuedRequest {
+  priority: number;
+  start: () => void;
+}
+
+/**
+ * Sliding-window limiter with a concurrency cap and a priority queue
+ */
+class Limiter {
+  private queue: QueuedRequest[] = [];
+  private active = 0;
+  private started: number[] = []; // Start times within the current window
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private readonly requestsPerInterval: number,
+    private readonly interval: number,
+    private readonly maxConcurrent: number
+  ) {}
+
+  // Wait for a slot; resolves with a release function
+  acquire(priority: number, signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError('Request aborted', signal.reason));
+        return;
+      }
+
+      const onAbort = () => {
+        this.queue = this.queue.filter((queued) => queued !== entry);
+        reject(new AbortError('Request aborted', signal?.reason));
+      };
+      const entry: QueuedRequest = {
+        priority,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(() => {
+            this.active--;
+            this.drain();
+          });
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Keep FIFO order within the same priority
+      const index = this.queue.findIndex((queued) => queued.priority < priority);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+      this.drain();
+    });
+  }
+
+  // Hold every request until the server's limit resets
+  pause(delay: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      const now = Date.now();
+      this.started = this.started.filter((time) => now - time < this.interval);
+
+      let wait = this.pausedUntil - now;
+      if (wait <= 0 && this.started.length >= this.requestsPerInterval) {
+        wait = this.started[0] + this.interval - now;
+      }
+      if (wait > 0) {
+        this.schedule(wait);
+        return;
+      }
+
+      this.active++;
+      this.started.push(now);
+      this.queue.shift()!.start();
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, delay);
+  }
+}
+
+function getPriority(request: RequestContext): number {
+  const priority = request.meta?.priority;
+  if (typeof priority === 'number') return priority;
+  return typeof priority === 'string' ? (PRIORITIES[priority] ?? 0) : 0;
+}
+
+/**
+ * Create rate limit middleware
+ *
+ * Requests beyond `requestsPerInterval` or `maxConcurrent` wait in a queue ordered by
+ * `meta.priority`. A `429` (or a response with `X-RateLimit-Remaining: 0`) pauses the queue for
+ * the `Retry-After` / `X-RateLimit-Reset` delay, or one interval without those headers.
+ */
+export function rateLimitMiddleware(config: RateLimitConfig): Middleware {
+  const {
+    requestsPerInterval = Infinity,
+    interval = 1000,
+    maxConcurrent = Infinity,
+    scope = 'global',
+  } = config;
+  const limiters = new Map<string, Limiter>();
+
+  return async (request, next) => {
+    const key = getScopeKey(request, scope);
+    let limiter = limiters.get(key);
+    if (!limiter) {
+      limiter = new Limiter(requestsPerInterval, interval, maxConcurrent);
+      limiters.set(key, limiter);
+    }
+
+    const release = await limiter.acquire(getPriority(request), request.signal);
+    try {
+      const response = await next(request);
+      if (getHeader(response.headers, 'x-ratelimit-remaining') === '0') {
+        const delay = getRetryDelay(response.headers);
+        if (delay !== undefined) limiter.pause(delay);
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 429) {
+        limiter.pause(getRetryDelay(error.headers) ?? interval);
+      }
+      throw error;
+    } finally {
+      release();
+    }
+  };
+}
@@ -1,5 +1,6 @@
-import type { Middleware } from '../types';
-import { HttpError } from '../errors';
+import type { HttpMethod, Middleware, RequestContext } from '../types';
+import { AbortError, HttpError, NetworkError, TimeoutError, ZodseiError } from '../errors';
+import { getRetryDelay } from '../utils/request';
 
 /**
  * Retry middleware configuration
@@ -8,18 +9,29 @@ export interface RetryConfig {
   retries: number;
   delay: number;
   backoff?: 'linear' | 'exponential';
+  maxDelay?: number; // Upper bound for a single wait (milliseconds, default: 30000)
+  jitter?: 'full' | 'equal' | 'none'; // Randomize backoff delays (default: 'full')
+  respectRetryAfter?: boolean; // Wait as long as `Retry-After` asks on 429/503 (default: true)
+  retryMethods?: HttpMethod[]; // Methods retried unless the endpoint sets `idempotent`
   retryCondition?: (error: Error) => boolean;
-  onRetry?: (attempt: number, error: Error) => void;
+  onRetry?: (attempt: number, error: Error, delay: number) => void;
 }
 
-// Default retry condition
-function defaultRetryCondition(error: Error): boolean {
+// Idempotent methods (RFC 9110); others are retried only for endpoints declared `idempotent`
+const DEFAULT_RETRY_METHODS: HttpMethod[] = ['get', 'head', 'options', 'put', 'delete'];
+
+// Default retry condition (network errors, timeouts, 5xx, 408 and 429)
+export function defaultRetryCondition(error: Error): boolean {
   if (error instanceof HttpError) {
     // Retry server errors and some client errors
     return error.status >= 500 || error.status === 408 || error.status === 429;
   }
-  // Retry network errors
-  return true;
+  // Retry network errors; other Zodsei errors (validation, abort, open circuit) are final
+  return (
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    !(error instanceof ZodseiError)
+  );
 }
 
 // Calculate delay time
@@ -37,24 +49,75 @@ function calculateDelay(
   }
 }
 
-// Delay function
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+// Spread delays so clients do not retry in lockstep
+function applyJitter(delay: number, jitter: 'full' | 'equal' | 'none'): number {
+  switch (jitter) {
+    case 'full':
+      return Math.random() * delay;
+    case 'equal':
+      return delay / 2 + Math.random() * (delay / 2);
+    case 'none':
+    default:
+      return delay;
+  }
+}
+
+// Delay requested by the server for 429/503 responses
+function serverDelay(error: Error): number | undefined {
+  if (error instanceof HttpError && (error.status === 429 || error.status === 503)) {
+    return getRetryDelay(error.headers);
+  }
+  return undefined;
+}
+
+function isRetryableMethod(request: RequestContext, retryMethods: HttpMethod[]): boolean {
+  return request.idempotent ?? retryMethods.includes(request.method.toLowerCase() as HttpMethod);
+}
+
+// Delay function; rejects with AbortError as soon as the caller aborts
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError('Request aborted', signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError('Request aborted', signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
  * Create retry middleware
+ *
+ * Only idempotent requests are retried: methods in `retryMethods`, or any method when the
+ * endpoint declares `idempotent: true` (`idempotent: false` opts an endpoint out).
  */
 export function retryMiddleware(config: RetryConfig): Middleware {
   const {
     retries,
     delay: baseDelay,
     backoff = 'exponential',
+    maxDelay = 30000,
+    jitter = 'full',
+    respectRetryAfter = true,
+    retryMethods = DEFAULT_RETRY_METHODS,
     retryCondition = defaultRetryCondition,
     onRetry,
   } = config;
 
   return async (request, next) => {
+    if (!isRetryableMethod(request, retryMethods)) {
+      return next(request);
+    }
+
     let lastError: Error;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
@@ -73,14 +136,19 @@ export function retryMiddleware(config: RetryConfig): Middleware {
           throw lastError;
         }
 
+        // Calculate delay: the server's Retry-After, else jittered backoff
+        const requested = respectRetryAfter ? serverDelay(lastError) : undefined;
+        const delayTime =
+          requested !== undefined
+            ? Math.min(requested, maxDelay)
+            : applyJitter(Math.min(calculateDelay(attempt, baseDelay, backoff), maxDelay), jitter);
+
         // Call retry callback
         if (onRetry) {
-          onRetry(attempt + 1, lastError);
+          onRetry(attempt + 1, lastError, delayTime);
         }
 
-        // Calculate delay and wait
-        const delayTime = calculateDelay(attempt, baseDelay, backoff);
-        await delay(delayTime);
+        await delay(delayTime, request.signal);
       }
     }
 
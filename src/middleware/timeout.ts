@@ -0,0 +1,66 @@
+import type { Middleware, RequestContext } from '../types';
+import { TimeoutError } from '../errors';
+
+/**
+ * Timeout middleware configuration
+ */
+export interface TimeoutConfig {
+  default?: number; // Timeout for every request (milliseconds)
+  perEndpoint?: Record<string, number>; // Timeouts by dotted endpoint key, e.g. `users.search`
+}
+
+/**
+ * Run a request with a deadline
+ *
+ * The request gets its own `AbortSignal` (still following the caller's) that is aborted when the
+ * deadline passes; the returned promise then rejects with `TimeoutError`.
+ */
+export async function runWithTimeout<R>(
+  context: RequestContext,
+  timeout: number,
+  run: (context: RequestContext) => Promise<R>
+): Promise<R> {
+  const controller = new AbortController();
+  const parent = context.signal;
+  const forwardAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    forwardAbort();
+  } else {
+    parent?.addEventListener('abort', forwardAbort, { once: true });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError(timeout);
+      controller.abort(error);
+      reject(error);
+    }, timeout);
+  });
+
+  try {
+    return await Promise.race([run({ ...context, signal: controller.signal, timeout }), deadline]);
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+/**
+ * Create timeout middleware
+ *
+ * The timeout is taken from the call (`RequestOptions.timeout`) or endpoint definition first,
+ * then `perEndpoint`, then `default`. It covers everything after this middleware in the chain.
+ */
+export function timeoutMiddleware(config: TimeoutConfig): Middleware {
+  const { default: defaultTimeout, perEndpoint = {} } = config;
+
+  return (request, next) => {
+    const timeout =
+      request.timeout ??
+      (request.endpoint !== undefined ? perEndpoint[request.endpoint] : undefined) ??
+      defaultTimeout;
+
+    return timeout === undefined ? next(request) : runWithTimeout(request, timeout, next);
+  };
+}
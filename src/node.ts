@@ -0,0 +1,12 @@
+/**
+ * Zodsei Node.js entry - APIs that depend on Node built-ins
+ */
+
+// OpenAPI file helpers
+export { readOpenAPIDocument, generateContractFile } from './openapi/file';
+
+// File-system cache storage
+export { FileCacheStorage } from './middleware/file-cache';
+
+// Contract-driven node:http server
+export * from './server';
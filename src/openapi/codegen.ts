@@ -0,0 +1,517 @@
+import type { JsonSchema } from './types';
+
+/**
+ * OpenAPI -> Zodsei contract source generation
+ */
+
+/**
+ * Contract source generation options
+ */
+export interface CodegenOptions {
+  groupBy?: 'tag' | 'path'; // Nested contract grouping (default: tag, falling back to path)
+  contractName?: string; // Exported contract constant (default: contract)
+  importSource?: string; // Module providing z and defineContract (default: zodsei)
+}
+
+// Loosely typed OpenAPI 3.0/3.1 input document
+type Document = { [key: string]: unknown };
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'] as const;
+
+// Imported names and globals that generated component constants must not shadow
+const RESERVED_NAMES = new Set([
+  'z',
+  'defineContract',
+  'Array',
+  'Boolean',
+  'Date',
+  'Error',
+  'JSON',
+  'Map',
+  'Math',
+  'Number',
+  'Object',
+  'Promise',
+  'Record',
+  'Set',
+  'String',
+  'Symbol',
+]);
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Single-quoted string literal
+function quote(value: string): string {
+  return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+// Object key, quoted when not a valid identifier
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : quote(key);
+}
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z\d]+/)
+    .filter(Boolean);
+}
+
+function pascalCase(value: string): string {
+  return words(value)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+function camelCase(value: string): string {
+  const pascal = pascalCase(value);
+  const name = pascal.charAt(0).toLowerCase() + pascal.slice(1);
+  return /^\d/.test(name) ? `_${name}` : name || '_';
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Zod source emitter for JSON Schema
+ */
+class SchemaEmitter {
+  private readonly names = new Map<string, string>();
+  // Object properties being emitted, and cyclic references emitted inside them
+  private propertyDepth = 0;
+  private cyclicReferences = 0;
+
+  constructor(private readonly document: Document) {}
+
+  // Resolve a local `#/...` reference
+  resolve<T = unknown>(value: unknown): T {
+    let current = value;
+    const seen = new Set<string>();
+    while (isObject(current) && typeof current.$ref === 'string') {
+      const ref = current.$ref;
+      if (seen.has(ref) || !ref.startsWith('#/')) break;
+      seen.add(ref);
+      current = ref
+        .slice(2)
+        .split('/')
+        .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+        .reduce<unknown>((node, part) => (isObject(node) ? node[part] : undefined), this.document);
+    }
+    return current as T;
+  }
+
+  get componentSchemas(): Record<string, JsonSchema> {
+    const components = isObject(this.document.components) ? this.document.components : {};
+    return (isObject(components.schemas) ? components.schemas : {}) as Record<string, JsonSchema>;
+  }
+
+  // Constant name for a component schema
+  componentName(name: string): string {
+    let identifier = this.names.get(name);
+    if (!identifier) {
+      identifier = pascalCase(name) || 'Schema';
+      if (/^\d/.test(identifier)) identifier = `Schema${identifier}`;
+      if (RESERVED_NAMES.has(identifier)) identifier = `${identifier}Schema`;
+      const taken = new Set(this.names.values());
+      for (let i = 2, base = identifier; taken.has(identifier); i++) {
+        identifier = `${base}${i}`;
+      }
+      this.names.set(name, identifier);
+    }
+    return identifier;
+  }
+
+  // Emit component schema constants in dependency order
+  emitComponents(): string[] {
+    const schemas = this.componentSchemas;
+    const order: string[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (name: string) => {
+      // Already emitted, or a cycle (emitted as a getter or z.lazy)
+      if (state.has(name)) return;
+      state.set(name, 'visiting');
+      for (const dependency of this.dependencies(schemas[name])) {
+        if (dependency in schemas) visit(dependency);
+      }
+      state.set(name, 'done');
+      order.push(name);
+    };
+    Object.keys(schemas).forEach((name) => this.componentName(name));
+    Object.keys(schemas).forEach(visit);
+
+    const emitted = new Set<string>();
+    return order.map((name) => {
+      const identifier = this.componentName(name);
+      const expression = this.emit(schemas[name], 0, emitted);
+      emitted.add(name);
+      return [
+        `export const ${identifier} = ${expression};`,
+        `export type ${identifier} = z.infer<typeof ${identifier}>;`,
+      ].join('\n');
+    });
+  }
+
+  // Emit a Zod expression for a JSON Schema
+  emit(schema: unknown, depth = 0, emitted?: Set<string>): string {
+    if (!isObject(schema)) {
+      return schema === false ? 'z.never()' : 'z.unknown()';
+    }
+
+    if (typeof schema.$ref === 'string') {
+      const match = /^#\/components\/schemas\/(.+)$/.exec(schema.$ref);
+      if (match) {
+        const name = match[1].replace(/~1/g, '/').replace(/~0/g, '~');
+        const identifier = this.componentName(name);
+        // In dependency order, only cyclic references point at unemitted components. Inside an
+        // object property they become a getter (see emitObject), which keeps the types inferable
+        if (!emitted || emitted.has(name)) return identifier;
+        if (this.propertyDepth === 0) return `z.lazy(() => ${identifier})`;
+        this.cyclicReferences++;
+        return identifier;
+      }
+      return this.emit(this.resolve(schema), depth, emitted);
+    }
+
+    let expression = this.emitType(schema, depth, emitted);
+
+    // OpenAPI 3.0 nullable
+    if (schema.nullable === true) {
+      expression += '.nullable()';
+    }
+    if (typeof schema.description === 'string') {
+      expression += `.describe(${quote(schema.description)})`;
+    }
+    return expression;
+  }
+
+  private emitType(
+    schema: { [key: string]: unknown },
+    depth: number,
+    emitted?: Set<string>
+  ): string {
+    if ('const' in schema) {
+      return `z.literal(${JSON.stringify(schema.const)})`;
+    }
+
+    if (Array.isArray(schema.enum)) {
+      const values = schema.enum as unknown[];
+      if (values.length > 0 && values.every((value) => typeof value === 'string')) {
+        return `z.enum([${(values as string[]).map(quote).join(', ')}])`;
+      }
+      const literals = values.map((value) => `z.literal(${JSON.stringify(value)})`);
+      return literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`;
+    }
+
+    for (const keyword of ['oneOf', 'anyOf'] as const) {
+      const variants = schema[keyword];
+      if (Array.isArray(variants)) {
+        const members = variants.map((variant) => this.emit(variant, depth, emitted));
+        if (members.length === 1) return members[0];
+        const discriminator = isObject(schema.discriminator)
+          ? schema.discriminator.propertyName
+          : undefined;
+        return typeof discriminator === 'string'
+          ? `z.discriminatedUnion(${quote(discriminator)}, [${members.join(', ')}])`
+          : `z.union([${members.join(', ')}])`;
+      }
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      const members = schema.allOf.map((member) => this.emit(member, depth, emitted));
+      return members.reduce((left, right) => `z.intersection(${left}, ${right})`);
+    }
+
+    // OpenAPI 3.1 type arrays, e.g. ['string', 'null']
+    if (Array.isArray(schema.type)) {
+      const types = schema.type as string[];
+      const nonNull = types.filter((type) => type !== 'null');
+      const members = nonNull.map((type) => this.emitType({ ...schema, type }, depth, emitted));
+      const base =
+        members.length === 0
+          ? 'z.null()'
+          : members.length === 1
+            ? members[0]
+            : `z.union([${members.join(', ')}])`;
+      return nonNull.length < types.length && nonNull.length > 0 ? `${base}.nullable()` : base;
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return this.emitString(schema);
+      case 'integer':
+      case 'number':
+        return this.emitNumber(schema);
+      case 'boolean':
+        return 'z.boolean()';
+      case 'null':
+        return 'z.null()';
+      case 'array': {
+        let expression = `z.array(${this.emit(schema.items, depth, emitted)})`;
+        if (typeof schema.minItems === 'number') expression += `.min(${schema.minItems})`;
+        if (typeof schema.maxItems === 'number') expression += `.max(${schema.maxItems})`;
+        return expression;
+      }
+      case 'object':
+        return this.emitObject(schema, depth, emitted);
+      default:
+        return isObject(schema.properties)
+          ? this.emitObject(schema, depth, emitted)
+          : 'z.unknown()';
+    }
+  }
+
+  private emitString(schema: { [key: string]: unknown }): string {
+    const formats: Record<string, string> = {
+      uuid: 'z.uuid()',
+      email: 'z.email()',
+      uri: 'z.url()',
+      url: 'z.url()',
+      'date-time': 'z.iso.datetime({ offset: true })',
+      date: 'z.iso.date()',
+      time: 'z.iso.time()',
+      ipv4: 'z.ipv4()',
+      ipv6: 'z.ipv6()',
+    };
+    let expression =
+      typeof schema.format === 'string' && formats[schema.format]
+        ? formats[schema.format]
+        : 'z.string()';
+    if (typeof schema.minLength === 'number') expression += `.min(${schema.minLength})`;
+    if (typeof schema.maxLength === 'number') expression += `.max(${schema.maxLength})`;
+    if (typeof schema.pattern === 'string') {
+      expression += `.regex(new RegExp(${quote(schema.pattern)}))`;
+    }
+    return expression;
+  }
+
+  private emitNumber(schema: { [key: string]: unknown }): string {
+    let expression = schema.type === 'integer' ? 'z.int()' : 'z.number()';
+    // OpenAPI 3.0 uses boolean exclusive flags, 3.1 uses numbers
+    if (typeof schema.exclusiveMinimum === 'number') {
+      expression += `.gt(${schema.exclusiveMinimum})`;
+    } else if (typeof schema.minimum === 'number') {
+      expression +=
+        schema.exclusiveMinimum === true ? `.gt(${schema.minimum})` : `.min(${schema.minimum})`;
+    }
+    if (typeof schema.exclusiveMaximum === 'number') {
+      expression += `.lt(${schema.exclusiveMaximum})`;
+    } else if (typeof schema.maximum === 'number') {
+      expression +=
+        schema.exclusiveMaximum === true ? `.lt(${schema.maximum})` : `.max(${schema.maximum})`;
+    }
+    return expression;
+  }
+
+  private emitObject(
+    schema: { [key: string]: unknown },
+    depth: number,
+    emitted?: Set<string>
+  ): string {
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+    const entries = Object.entries(properties);
+
+    if (entries.length === 0) {
+      return isObject(schema.additionalProperties)
+        ? `z.record(z.string(), ${this.emit(schema.additionalProperties, depth, emitted)})`
+        : schema.additionalProperties === false
+          ? 'z.object({})'
+          : 'z.record(z.string(), z.unknown())';
+    }
+
+    const indent = '  '.repeat(depth + 1);
+    const fields = entries.map(([key, value]) => {
+      const cyclicReferences = this.cyclicReferences;
+      this.propertyDepth++;
+      let field = this.emit(value, depth + 1, emitted);
+      this.propertyDepth--;
+      if (!required.includes(key)) field += '.optional()';
+
+      if (this.cyclicReferences === cyclicReferences) {
+        return `${indent}${propertyKey(key)}: ${field},`;
+      }
+      // Recursive property: Zod 4 getter syntax, e.g. `get children() { return z.array(Node); }`
+      this.cyclicReferences = cyclicReferences;
+      return `${indent}get ${propertyKey(key)}() {\n${indent}  return ${field};\n${indent}},`;
+    });
+    return `z.object({\n${fields.join('\n')}\n${'  '.repeat(depth)}})`;
+  }
+
+  // Names of component schemas referenced by a schema
+  private dependencies(schema: unknown, found = new Set<string>()): Set<string> {
+    if (Array.isArray(schema)) {
+      schema.forEach((item) => this.dependencies(item, found));
+    } else if (isObject(schema)) {
+      for (const [key, value] of Object.entries(schema)) {
+        if (key === '$ref' && typeof value === 'string') {
+          const match = /^#\/components\/schemas\/(.+)$/.exec(value);
+          if (match) found.add(match[1].replace(/~1/g, '/').replace(/~0/g, '~'));
+        } else {
+          this.dependencies(value, found);
+        }
+      }
+    }
+    return found;
+  }
+}
+
+interface ParameterObject {
+  name: string;
+  in: string;
+  required?: boolean;
+  schema?: unknown;
+}
+
+// First JSON-like media type schema of a request body or response
+function jsonContentSchema(content: unknown): unknown {
+  if (!isObject(content)) return undefined;
+  const type =
+    Object.keys(content).find((media) => /json/i.test(media)) ??
+    Object.keys(content).find((media) => media === '*/*');
+  const media = type ? content[type] : undefined;
+  return isObject(media) ? media.schema : undefined;
+}
+
+// Group of parameters -> object schema source
+function emitParameterObject(
+  parameters: ParameterObject[],
+  emitter: SchemaEmitter,
+  depth: number
+): string {
+  const indent = '  '.repeat(depth + 1);
+  const fields = parameters.map((parameter) => {
+    const schema = emitter.emit(parameter.schema ?? { type: 'string' }, depth + 1);
+    const required = parameter.in === 'path' || parameter.required === true;
+    return `${indent}${propertyKey(parameter.name)}: ${required ? schema : `${schema}.optional()`},`;
+  });
+  return `z.object({\n${fields.join('\n')}\n${'  '.repeat(depth)}})`;
+}
+
+/**
+ * Generate a TypeScript module with Zod schemas and a nested contract
+ * from an OpenAPI 3.x document
+ */
+export function generateContractSource(document: Document, options: CodegenOptions = {}): string {
+  const { groupBy = 'tag', contractName = 'contract', importSource = 'zodsei' } = options;
+  const emitter = new SchemaEmitter(document);
+  const components = emitter.emitComponents();
+  const groups = new Map<string, Map<string, string>>();
+
+  const paths = isObject(document.paths) ? document.paths : {};
+  for (const [path, rawItem] of Object.entries(paths)) {
+    const item = emitter.resolve<{ [key: string]: unknown }>(rawItem);
+    if (!isObject(item)) continue;
+    const sharedParameters = Array.isArray(item.parameters) ? item.parameters : [];
+
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!isObject(operation)) continue;
+
+      // Group by first tag or first path segment
+      const tag = Array.isArray(operation.tags) ? operation.tags[0] : undefined;
+      const segment = path.split('/').find((part) => part && !part.startsWith('{'));
+      const groupName = camelCase(
+        (groupBy === 'tag' && typeof tag === 'string' ? tag : segment) ?? 'default'
+      );
+      const group = groups.get(groupName) ?? new Map<string, string>();
+      groups.set(groupName, group);
+
+      let name =
+        typeof operation.operationId === 'string'
+          ? camelCase(operation.operationId)
+          : camelCase(`${method} ${path.replace(/\{([^}]+)\}/g, 'by $1')}`);
+      for (let i = 2, base = name; group.has(name); i++) {
+        name = `${base}${i}`;
+      }
+
+      group.set(name, generateEndpoint(path, method, operation, sharedParameters, emitter));
+    }
+  }
+
+  const info = isObject(document.info) ? document.info : {};
+  const title = [info.title, info.version].filter((part) => typeof part === 'string').join(' ');
+
+  const body = [...groups.entries()]
+    .map(([groupName, endpoints]) => {
+      const entries = [...endpoints.entries()]
+        .map(([name, source]) => `    ${propertyKey(name)}: ${source},`)
+        .join('\n');
+      return `  ${propertyKey(groupName)}: {\n${entries}\n  },`;
+    })
+    .join('\n');
+
+  return [
+    `// Generated by zodsei${title ? ` from ${title}` : ''}. Do not edit by hand.`,
+    `import { z, defineContract } from ${quote(importSource)};`,
+    '',
+    ...components.flatMap((component) => [component, '']),
+    `export const ${contractName} = defineContract({\n${body}\n});`,
+    '',
+  ].join('\n');
+}
+
+function generateEndpoint(
+  path: string,
+  method: string,
+  operation: { [key: string]: unknown },
+  sharedParameters: unknown[],
+  emitter: SchemaEmitter
+): string {
+  const depth = 3;
+  const indent = '  '.repeat(depth);
+  const lines = [`path: ${quote(path.replace(/\{([^}]+)\}/g, ':$1'))}`, `method: ${quote(method)}`];
+
+  // Operation parameters override path-level ones with the same name/location
+  const parameters = new Map<string, ParameterObject>();
+  for (const raw of [
+    ...sharedParameters,
+    ...(Array.isArray(operation.parameters) ? operation.parameters : []),
+  ]) {
+    const parameter = emitter.resolve<ParameterObject>(raw);
+    if (isObject(parameter) && typeof parameter.name === 'string') {
+      parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+  }
+
+  for (const [location, part] of [
+    ['path', 'params'],
+    ['query', 'query'],
+    ['header', 'headers'],
+  ] as const) {
+    const group = [...parameters.values()].filter((parameter) => parameter.in === location);
+    if (group.length > 0) {
+      lines.push(`${part}: ${emitParameterObject(group, emitter, depth)}`);
+    }
+  }
+
+  const requestBody = emitter.resolve<{ [key: string]: unknown }>(operation.requestBody);
+  const bodySchema = isObject(requestBody) ? jsonContentSchema(requestBody.content) : undefined;
+  if (bodySchema !== undefined) {
+    const schema = emitter.emit(bodySchema, depth);
+    lines.push(`body: ${requestBody?.required === true ? schema : `${schema}.optional()`}`);
+  }
+
+  // Numeric statuses with a JSON body; `default` and `2XX` ranges are skipped
+  const responses = Object.entries(isObject(operation.responses) ? operation.responses : {})
+    .filter(([status]) => /^\d{3}$/.test(status))
+    .map(([status, raw]) => {
+      const response = emitter.resolve<{ [key: string]: unknown }>(raw);
+      const schema = isObject(response) ? jsonContentSchema(response.content) : undefined;
+      return [Number(status), schema] as const;
+    })
+    .filter(([, schema]) => schema !== undefined);
+
+  const success = responses.filter(([status]) => status >= 200 && status < 300);
+  if (responses.length === 1 && success.length === 1) {
+    lines.push(`response: ${emitter.emit(success[0][1], depth)}`);
+  } else if (responses.length > 0) {
+    const entries = responses
+      .map(([status, schema]) => `${indent}  ${status}: ${emitter.emit(schema, depth + 1)},`)
+      .join('\n');
+    lines.push(`responses: {\n${entries}\n${indent}}`);
+  }
+
+  return `{\n${lines.map((line) => `${indent}${line},`).join('\n')}\n    }`;
+}
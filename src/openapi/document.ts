@@ -0,0 +1,329 @@
+import { z } from 'zod';
+import type { Contract, EndpointDefinition } from '../types';
+import { flattenContract, hasRequestParts } from '../utils/contract';
+import { extractPathParamNames } from '../utils/path';
+import type {
+  JsonSchema,
+  OpenAPIDocument,
+  OpenAPIInfo,
+  OpenAPIOperation,
+  OpenAPIParameter,
+  OpenAPIResponse,
+  OpenAPIServer,
+} from './types';
+
+/**
+ * OpenAPI generation options
+ */
+export interface OpenAPIOptions {
+  info: OpenAPIInfo;
+  servers?: OpenAPIServer[];
+}
+
+const COMPONENT_PREFIX = '#/components/schemas/';
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  503: 'Service Unavailable',
+};
+
+type SchemaIO = 'input' | 'output';
+
+function toJsonSchema(schema: z.ZodType, io: SchemaIO): JsonSchema {
+  return z.toJSONSchema(schema, { unrepresentable: 'any', io }) as JsonSchema;
+}
+
+// Serialized shape for comparing directions - output objects only add `additionalProperties: false`
+function shapeOf(json: JsonSchema): string {
+  return JSON.stringify(json, (key, value: unknown) =>
+    key === 'additionalProperties' && value === false ? undefined : value
+  );
+}
+
+/**
+ * Component schema registry - converts Zod schemas to JSON Schema and
+ * deduplicates them into `components.schemas`
+ */
+class ComponentRegistry {
+  readonly schemas: Record<string, JsonSchema> = {};
+  // Component names per schema and direction, `both` when input and output convert the same
+  private readonly names = new Map<z.ZodType, Partial<Record<SchemaIO | 'both', string>>>();
+
+  // Register a schema as a component and return a $ref to it
+  ref(schema: z.ZodType, fallbackName: string, io: SchemaIO): JsonSchema {
+    return { $ref: `${COMPONENT_PREFIX}${this.component(schema, fallbackName, io)}` };
+  }
+
+  // Convert a schema inline, hoisting nested `$defs` into components
+  convert(schema: z.ZodType, io: SchemaIO, self?: string): JsonSchema {
+    const json = toJsonSchema(schema, io);
+    const defs = (json.$defs ?? {}) as Record<string, JsonSchema>;
+    delete json.$schema;
+    delete json.$defs;
+
+    // Schemas with an `id` become components of their own, shared with direct uses
+    const defNames: Record<string, string> = {};
+    for (const defName of Object.keys(defs)) {
+      const registered = z.globalRegistry._idmap.get(defName) as z.ZodType | undefined;
+      defNames[defName] = registered
+        ? this.component(registered, defName, io)
+        : this.uniqueName(defName);
+    }
+
+    for (const [defName, def] of Object.entries(defs)) {
+      if (!z.globalRegistry._idmap.has(defName)) {
+        const { id: _id, ...rest } = def;
+        this.schemas[defNames[defName]] = rewriteRefs(rest, defNames, self) as JsonSchema;
+      }
+    }
+
+    return rewriteRefs(json, defNames, self) as JsonSchema;
+  }
+
+  private component(schema: z.ZodType, fallbackName: string, io: SchemaIO): string {
+    const slot = this.slot(schema, io);
+    const entry = this.names.get(schema) ?? {};
+    let name = entry[slot];
+    if (!name) {
+      const meta = z.globalRegistry.get(schema) as { id?: unknown } | undefined;
+      name = this.uniqueName(typeof meta?.id === 'string' ? meta.id : fallbackName);
+      entry[slot] = name;
+      this.names.set(schema, entry);
+      // Reserve the name first so cyclic references resolve to it
+      this.schemas[name] = {};
+      const converted = this.convert(schema, io, name);
+      delete converted.id;
+      this.schemas[name] = converted;
+    }
+    return name;
+  }
+
+  // One component serves both directions unless input and output shapes differ
+  private slot(schema: z.ZodType, io: SchemaIO): SchemaIO | 'both' {
+    const input = shapeOf(toJsonSchema(schema, 'input'));
+    const output = shapeOf(toJsonSchema(schema, 'output'));
+    return input === output ? 'both' : io;
+  }
+
+  private uniqueName(base: string): string {
+    let name = base;
+    for (let i = 2; name in this.schemas; i++) {
+      name = `${base}${i}`;
+    }
+    return name;
+  }
+}
+
+// Point `#/$defs/X` references (and `#` for the root) at `#/components/schemas/...`
+function rewriteRefs(value: unknown, defNames: Record<string, string>, self?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => rewriteRefs(item, defNames, self));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        key === '$ref' && typeof item === 'string'
+          ? rewriteRef(item, defNames, self)
+          : rewriteRefs(item, defNames, self),
+      ])
+    );
+  }
+  return value;
+}
+
+function rewriteRef(ref: string, defNames: Record<string, string>, self?: string): string {
+  if (ref === '#' && self) {
+    return `${COMPONENT_PREFIX}${self}`;
+  }
+  if (ref.startsWith('#/$defs/')) {
+    const defName = ref.slice('#/$defs/'.length);
+    return `${COMPONENT_PREFIX}${defNames[defName] ?? defName}`;
+  }
+  return ref;
+}
+
+// Convert `/users/:id` to `/users/{id}`
+export function toOpenAPIPath(path: string): string {
+  return path.replace(/:([^/]+)/g, '{$1}');
+}
+
+// `users.getById` + `Response` -> `UsersGetByIdResponse`
+function componentName(key: string, suffix: string): string {
+  const base = key
+    .split(/[.\-_\s]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return `${base}${suffix}`;
+}
+
+// Object JSON schema -> one parameter per property
+function objectParameters(
+  json: JsonSchema,
+  location: OpenAPIParameter['in'],
+  exclude: string[] = []
+): OpenAPIParameter[] {
+  const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+  const required = Array.isArray(json.required) ? (json.required as string[]) : [];
+
+  return Object.entries(properties)
+    .filter(([name]) => !exclude.includes(name))
+    .map(([name, schema]) => {
+      const parameter: OpenAPIParameter = {
+        name,
+        in: location,
+        required: location === 'path' || required.includes(name),
+        schema,
+      };
+      if (typeof schema.description === 'string') {
+        parameter.description = schema.description;
+      }
+      return parameter;
+    });
+}
+
+// Path parameters, typed from the schema that provides them when possible
+function pathParameters(path: string, source: JsonSchema | undefined): OpenAPIParameter[] {
+  const properties = (source?.properties ?? {}) as Record<string, JsonSchema>;
+  return extractPathParamNames(path).map((name) => ({
+    name,
+    in: 'path' as const,
+    required: true,
+    schema: properties[name] ?? { type: 'string' },
+  }));
+}
+
+function buildOperation(
+  key: string,
+  endpoint: EndpointDefinition,
+  registry: ComponentRegistry
+): OpenAPIOperation {
+  const operation: OpenAPIOperation = { operationId: key, responses: {} };
+  const method = endpoint.method.toLowerCase();
+
+  // Nested contract keys become tags: `admin.users.list` -> `admin.users`
+  const tag = key.split('.').slice(0, -1).join('.');
+  if (tag) {
+    operation.tags = [tag];
+  }
+
+  const parameters: OpenAPIParameter[] = [];
+
+  if (hasRequestParts(endpoint)) {
+    const params = endpoint.params ? registry.convert(endpoint.params, 'input') : undefined;
+    parameters.push(...pathParameters(endpoint.path, params));
+    if (endpoint.query) {
+      parameters.push(...objectParameters(registry.convert(endpoint.query, 'input'), 'query'));
+    }
+    if (endpoint.headers) {
+      parameters.push(...objectParameters(registry.convert(endpoint.headers, 'input'), 'header'));
+    }
+    if (endpoint.body) {
+      operation.requestBody = {
+        required: true,
+        content: {
+          'application/json': {
+            schema: registry.ref(endpoint.body, componentName(key, 'Body'), 'input'),
+          },
+        },
+      };
+    }
+  } else {
+    // Mirror the client: path params from the request, rest is query (GET) or body
+    const request = endpoint.request ? registry.convert(endpoint.request, 'input') : undefined;
+    const pathNames = extractPathParamNames(endpoint.path);
+    parameters.push(...pathParameters(endpoint.path, request));
+
+    if (endpoint.request && method === 'get' && request) {
+      parameters.push(...objectParameters(request, 'query', pathNames));
+    } else if (endpoint.request && !['get', 'head', 'delete'].includes(method)) {
+      operation.requestBody = {
+        required: true,
+        content: {
+          'application/json': {
+            schema: registry.ref(endpoint.request, componentName(key, 'Request'), 'input'),
+          },
+        },
+      };
+    }
+  }
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  const responses: Array<[number, z.ZodType | undefined]> = endpoint.responses
+    ? Object.entries(endpoint.responses).map(([status, schema]) => [Number(status), schema])
+    : [];
+  if (endpoint.response && !responses.some(([status]) => status >= 200 && status < 300)) {
+    responses.unshift([200, endpoint.response]);
+  }
+  if (responses.length === 0) {
+    responses.push([200, undefined]);
+  }
+
+  for (const [status, schema] of responses) {
+    const response: OpenAPIResponse = { description: STATUS_DESCRIPTIONS[status] ?? 'Response' };
+    if (schema) {
+      const suffix = status >= 200 && status < 300 ? '' : String(status);
+      response.content = {
+        'application/json': {
+          schema: registry.ref(schema, componentName(key, `${suffix}Response`), 'output'),
+        },
+      };
+    }
+    operation.responses[String(status)] = response;
+  }
+
+  return operation;
+}
+
+/**
+ * Generate an OpenAPI 3.1 document from a (nested) contract
+ */
+export function toOpenAPI(contract: Contract, options: OpenAPIOptions): OpenAPIDocument {
+  const registry = new ComponentRegistry();
+  const paths: OpenAPIDocument['paths'] = {};
+  const tags = new Set<string>();
+
+  for (const { key, endpoint } of flattenContract(contract)) {
+    const path = toOpenAPIPath(endpoint.path);
+    const operation = buildOperation(key, endpoint, registry);
+    operation.tags?.forEach((tag) => tags.add(tag));
+
+    paths[path] = {
+      ...paths[path],
+      [endpoint.method.toLowerCase()]: operation,
+    };
+  }
+
+  const document: OpenAPIDocument = {
+    openapi: '3.1.0',
+    info: options.info,
+    paths,
+  };
+
+  if (options.servers && options.servers.length > 0) {
+    document.servers = options.servers;
+  }
+  if (tags.size > 0) {
+    document.tags = [...tags].map((name) => ({ name }));
+  }
+  if (Object.keys(registry.schemas).length > 0) {
+    document.components = { schemas: registry.schemas };
+  }
+
+  return document;
+}
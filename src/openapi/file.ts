@@ -0,0 +1,59 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { dirname, extname } from 'node:path';
+import { ConfigError } from '../errors';
+import { generateContractSource, type CodegenOptions } from './codegen';
+
+/**
+ * File-based OpenAPI helpers (Node.js only)
+ */
+
+// `yaml` is an optional peer dependency, only loaded for YAML documents
+async function parseYaml(source: string): Promise<unknown> {
+  let yaml: typeof import('yaml');
+  try {
+    yaml = await import('yaml');
+  } catch {
+    throw new ConfigError('Reading YAML OpenAPI documents requires the `yaml` package');
+  }
+  return yaml.parse(source);
+}
+
+// Read an OpenAPI 3.x document from a JSON or YAML file
+export async function readOpenAPIDocument(path: string): Promise<Record<string, unknown>> {
+  const source = await readFile(path, 'utf8');
+  const extension = extname(path).toLowerCase();
+
+  let document: unknown;
+  try {
+    document = extension === '.json' ? JSON.parse(source) : await parseYaml(source);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Failed to parse OpenAPI document "${path}": ${message}`);
+  }
+
+  if (
+    typeof document !== 'object' ||
+    document === null ||
+    typeof (document as { openapi?: unknown }).openapi !== 'string' ||
+    !(document as { openapi: string }).openapi.startsWith('3.')
+  ) {
+    throw new ConfigError(`"${path}" is not an OpenAPI 3.x document`);
+  }
+
+  return document as Record<string, unknown>;
+}
+
+// Generate a contract module from an OpenAPI file and write it to disk
+export async function generateContractFile(
+  inputPath: string,
+  outputPath: string,
+  options: CodegenOptions = {}
+): Promise<string> {
+  const source = generateContractSource(await readOpenAPIDocument(inputPath), options);
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, source, 'utf8');
+  return source;
+}
@@ -0,0 +1,6 @@
+/**
+ * OpenAPI integration
+ */
+export { toOpenAPI, toOpenAPIPath, type OpenAPIOptions } from './document';
+export { generateContractSource, type CodegenOptions } from './codegen';
+export type * from './types';
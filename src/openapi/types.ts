@@ -0,0 +1,64 @@
+/**
+ * Minimal OpenAPI 3.1 document types
+ */
+
+// JSON Schema (2020-12) object as used by OpenAPI 3.1
+export type JsonSchema = { [key: string]: unknown };
+
+export interface OpenAPIInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export interface OpenAPIServer {
+  url: string;
+  description?: string;
+}
+
+export interface OpenAPIParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface OpenAPIMediaType {
+  schema?: JsonSchema;
+}
+
+export interface OpenAPIRequestBody {
+  required?: boolean;
+  content: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIResponse {
+  description: string;
+  content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: OpenAPIParameter[];
+  requestBody?: OpenAPIRequestBody;
+  responses: Record<string, OpenAPIResponse>;
+}
+
+export type OpenAPIPathItem = Partial<
+  Record<'get' | 'post' | 'put' | 'delete' | 'patch' | 'head' | 'options', OpenAPIOperation>
+>;
+
+export interface OpenAPIDocument {
+  openapi: string;
+  info: OpenAPIInfo;
+  servers?: OpenAPIServer[];
+  tags?: Array<{ name: string; description?: string }>;
+  paths: Record<string, OpenAPIPathItem>;
+  components?: {
+    schemas?: Record<string, JsonSchema>;
+  };
+}
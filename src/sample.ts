@@ -0,0 +1,427 @@
+import { z } from 'zod';
+import { ConfigError } from './errors';
+import { sampleRegex } from './utils/regex';
+
+/**
+ * Deterministic sample data generation from Zod schemas
+ */
+
+/**
+ * Sample generation options
+ */
+export interface SampleOptions {
+  seed?: number | string; // Same seed, same sample (default: 1)
+}
+
+// Zod internals read by the generator
+type SchemaDef = z.core.$ZodTypeDef & { [key: string]: unknown };
+type SchemaBag = {
+  format?: string;
+  minimum?: number | bigint;
+  maximum?: number | bigint;
+  exclusiveMinimum?: number | bigint;
+  exclusiveMaximum?: number | bigint;
+  multipleOf?: number | bigint;
+  patterns?: Set<RegExp>;
+};
+
+const WORDS = [
+  'alpha',
+  'bravo',
+  'charlie',
+  'delta',
+  'echo',
+  'foxtrot',
+  'golf',
+  'hotel',
+  'india',
+  'juliet',
+  'kilo',
+  'lima',
+  'mike',
+  'november',
+  'oscar',
+  'papa',
+];
+
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const HEX = '0123456789abcdef';
+
+// Upper bound for generated collection sizes when the schema sets none
+const DEFAULT_MAX_ITEMS = 3;
+
+// Object nesting after which optional values are left out and collections kept minimal,
+// so recursive schemas terminate
+const MAX_DEPTH = 4;
+
+// Attempts (with derived seeds) before giving up on schemas with refinements
+const MAX_ATTEMPTS = 10;
+
+// Larger numeric bounds are format limits (int32, safeint) rather than real constraints
+const MAX_BOUND = 1e9;
+
+// 2020-01-01 .. 2030-01-01, so generated timestamps look plausible
+const MIN_TIME = Date.UTC(2020, 0, 1);
+const MAX_TIME = Date.UTC(2030, 0, 1);
+
+// FNV-1a hash, used to turn string seeds into numbers
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number | string = 1) {
+    this.state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+  }
+
+  // Float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Integer in [min, max]
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  bool(probability = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  string(alphabet: string, length: number): string {
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += alphabet[Math.floor(this.next() * alphabet.length)];
+    }
+    return result;
+  }
+}
+
+/**
+ * Walks a Zod schema and builds a value that parses against it
+ */
+class SampleGenerator {
+  private depth = 0;
+
+  constructor(private readonly random: SeededRandom) {}
+
+  private get shallow(): boolean {
+    return this.depth >= MAX_DEPTH;
+  }
+
+  generate(schema: z.ZodType): unknown {
+    const def = schema._zod.def as SchemaDef;
+    const bag = schema._zod.bag as SchemaBag;
+
+    switch (def.type) {
+      case 'string':
+        return this.string(def, bag);
+      case 'number':
+        return this.number(def, bag);
+      case 'bigint':
+        return this.bigint(bag);
+      case 'boolean':
+        return this.random.bool();
+      case 'date':
+        return new Date(this.random.int(MIN_TIME, MAX_TIME));
+      case 'nan':
+        return NaN;
+      case 'null':
+        return null;
+      case 'undefined':
+      case 'void':
+        return undefined;
+      case 'any':
+      case 'unknown':
+        return this.random.pick(WORDS);
+      case 'literal':
+        return this.random.pick(def.values as unknown[]);
+      case 'enum':
+        return this.random.pick(Object.values(def.entries as Record<string, unknown>));
+      case 'optional':
+        return !this.shallow && this.random.bool(0.8)
+          ? this.generate(def.innerType as z.ZodType)
+          : undefined;
+      case 'nullable':
+        return !this.shallow && this.random.bool(0.9)
+          ? this.generate(def.innerType as z.ZodType)
+          : null;
+      case 'default':
+      case 'prefault':
+      case 'catch':
+      case 'readonly':
+      case 'nonoptional':
+        return this.generate(def.innerType as z.ZodType);
+      case 'pipe':
+        // The input side is what goes over the wire
+        return this.generate(def.in as z.ZodType);
+      case 'lazy':
+        return this.generate((def.getter as () => z.ZodType)());
+      case 'object':
+        return this.nested(() => this.object(def));
+      case 'array':
+        return this.nested(() =>
+          this.collection(bag).map(() => this.generate(def.element as z.ZodType))
+        );
+      case 'tuple':
+        return this.nested(() => this.tuple(def));
+      case 'set':
+        return this.nested(
+          () => new Set(this.collection(bag).map(() => this.generate(def.valueType as z.ZodType)))
+        );
+      case 'map':
+        return this.nested(
+          () =>
+            new Map(
+              this.collection(bag).map(() => [
+                this.generate(def.keyType as z.ZodType),
+                this.generate(def.valueType as z.ZodType),
+              ])
+            )
+        );
+      case 'record':
+        return this.nested(() => this.record(def));
+      case 'union':
+        // Discriminated unions need no special casing: each option carries its own literal
+        return this.generate(this.random.pick(def.options as z.ZodType[]));
+      case 'intersection':
+        return this.intersection(def);
+      default:
+        return undefined;
+    }
+  }
+
+  private nested<V>(build: () => V): V {
+    this.depth++;
+    try {
+      return build();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private object(def: SchemaDef): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(def.shape as Record<string, z.ZodType>)) {
+      const generated = this.generate(value);
+      if (generated !== undefined) {
+        result[key] = generated;
+      }
+    }
+    return result;
+  }
+
+  private tuple(def: SchemaDef): unknown[] {
+    const items = (def.items as z.ZodType[]).map((item) => this.generate(item));
+    const rest = def.rest as z.ZodType | null;
+    if (rest && !this.shallow) {
+      items.push(...this.collection({}).map(() => this.generate(rest)));
+    }
+    return items;
+  }
+
+  // Objects are merged; for anything else the left side has to satisfy both
+  private intersection(def: SchemaDef): unknown {
+    const left = this.generate(def.left as z.ZodType);
+    const right = this.generate(def.right as z.ZodType);
+    const isRecord = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+    return isRecord(left) && isRecord(right) ? { ...right, ...left } : left;
+  }
+
+  private record(def: SchemaDef): Record<string, unknown> {
+    const keyType = def.keyType as z.ZodType;
+    const keyDef = keyType._zod.def as SchemaDef;
+    // Enum keys must all be present
+    const keys =
+      keyDef.type === 'enum'
+        ? Object.values(keyDef.entries as Record<string, string>)
+        : this.collection({}).map(() => String(this.generate(keyType)));
+
+    return Object.fromEntries(keys.map((key) => [key, this.generate(def.valueType as z.ZodType)]));
+  }
+
+  // Placeholder array of the size the schema allows (the minimum once nesting gets deep)
+  private collection(bag: SchemaBag): null[] {
+    const min = Number(bag.minimum ?? (this.shallow ? 0 : 1));
+    const max = this.shallow ? min : Number(bag.maximum ?? Math.max(min, DEFAULT_MAX_ITEMS));
+    return new Array<null>(this.random.int(min, max)).fill(null);
+  }
+
+  private number(def: SchemaDef, bag: SchemaBag): number {
+    const format = (def.format as string | undefined) ?? bag.format;
+    const integer = typeof format === 'string' && format.includes('int');
+    const step = integer ? 1 : 0.01;
+    // Integer formats carry their full range as bounds; treat those as unset
+    const bound = (value: number | bigint | undefined) =>
+      value === undefined || Math.abs(Number(value)) > MAX_BOUND ? undefined : Number(value);
+
+    let min = bound(bag.minimum);
+    let max = bound(bag.maximum);
+    const exclusiveMin = bound(bag.exclusiveMinimum);
+    const exclusiveMax = bound(bag.exclusiveMaximum);
+    if (exclusiveMin !== undefined) min = Math.max(min ?? -Infinity, exclusiveMin + step);
+    if (exclusiveMax !== undefined) max = Math.min(max ?? Infinity, exclusiveMax - step);
+
+    // Prefer small positive numbers unless the bounds rule them out
+    min ??= max === undefined || max >= step ? step : max - 1000;
+    max ??= min + 1000;
+
+    if (bag.multipleOf !== undefined) {
+      const multiple = Number(bag.multipleOf);
+      const factor = this.random.int(Math.ceil(min / multiple), Math.floor(max / multiple));
+      // Round away floating point noise such as 0.30000000000000004
+      return Number((factor * multiple).toPrecision(12));
+    }
+    if (integer) {
+      return this.random.int(Math.ceil(min), Math.floor(max));
+    }
+    const low = Math.ceil(min * 100);
+    const high = Math.floor(max * 100);
+    return high < low ? min : this.random.int(low, high) / 100;
+  }
+
+  private bigint(bag: SchemaBag): bigint {
+    const toBigInt = (value: number | bigint | undefined) =>
+      value === undefined ? undefined : BigInt(value);
+    const min = toBigInt(bag.minimum) ?? (toBigInt(bag.exclusiveMinimum) ?? 0n) + 1n;
+    const max = toBigInt(bag.maximum) ?? (toBigInt(bag.exclusiveMaximum) ?? min + 1001n) - 1n;
+    return min + BigInt(this.random.int(0, Number(max - min)));
+  }
+
+  private string(def: SchemaDef, bag: SchemaBag): string {
+    const format = (def.format as string | undefined) ?? bag.format;
+    const formatted = format ? this.formatted(format) : undefined;
+    if (formatted !== undefined) {
+      return formatted;
+    }
+
+    const checks = (
+      (def.checks ?? []) as unknown as Array<{ _zod: { def: Record<string, unknown> } }>
+    ).map((check) => check._zod.def);
+    const regex = checks.find((check) => check.format === 'regex')?.pattern;
+    if (regex instanceof RegExp) {
+      const matched = sampleRegex(regex, this.random);
+      if (matched !== undefined) {
+        return matched;
+      }
+    }
+
+    const prefix = checks.map((check) => check.prefix ?? '').join('');
+    const suffix = checks.map((check) => check.suffix ?? '').join('');
+    const includes = checks.map((check) => check.includes ?? '').join('');
+    const fixed = prefix.length + includes.length + suffix.length;
+
+    const min = Math.max(0, Number(bag.minimum ?? 1) - fixed);
+    const max = Math.max(min, Number(bag.maximum ?? Infinity) - fixed);
+    const length = this.random.int(min, Math.min(max, Math.max(min, 24)));
+
+    let text = '';
+    while (text.length < length) {
+      text += (text ? ' ' : '') + this.random.pick(WORDS);
+    }
+    text = text.slice(0, length).trimEnd().padEnd(min, 'x');
+
+    const result = `${prefix}${includes}${text}${suffix}`;
+    return format === 'uppercase' ? result.toUpperCase() : result;
+  }
+
+  private formatted(format: string): string | undefined {
+    const random = this.random;
+    const timestamp = () => new Date(random.int(MIN_TIME, MAX_TIME)).toISOString();
+
+    switch (format) {
+      case 'uuid':
+      case 'guid':
+        return [
+          random.string(HEX, 8),
+          random.string(HEX, 4),
+          `4${random.string(HEX, 3)}`,
+          `${random.pick(['8', '9', 'a', 'b'])}${random.string(HEX, 3)}`,
+          random.string(HEX, 12),
+        ].join('-');
+      case 'email':
+        return `${random.pick(WORDS)}.${random.pick(WORDS)}@example.com`;
+      case 'url':
+        return `https://example.com/${random.pick(WORDS)}`;
+      case 'datetime':
+        return timestamp();
+      case 'date':
+        return timestamp().slice(0, 10);
+      case 'time':
+        return timestamp().slice(11, 19);
+      case 'duration':
+        return `P${random.int(1, 30)}D`;
+      case 'ipv4':
+        return Array.from({ length: 4 }, () => random.int(1, 254)).join('.');
+      case 'ipv6':
+        return Array.from({ length: 8 }, () => random.string(HEX, 4)).join(':');
+      case 'e164':
+        return `+1${random.string('0123456789', 10)}`;
+      case 'emoji':
+        return random.pick(['😀', '🚀', '🎉', '✨']);
+      case 'nanoid':
+        return random.string(`${ALPHANUMERIC}ABCDEFGHIJKLMNOPQRSTUVWXYZ_-`, 21);
+      case 'cuid':
+        return `c${random.string(ALPHANUMERIC, 24)}`;
+      case 'cuid2':
+        return random.string('abcdefghijklmnopqrstuvwxyz', 1) + random.string(ALPHANUMERIC, 23);
+      case 'ulid':
+        return random.string('0123456789ABCDEFGHJKMNPQRSTVWXYZ', 26);
+      case 'base64':
+        return btoa(random.string(ALPHANUMERIC, 12));
+      case 'base64url':
+        return btoa(random.string(ALPHANUMERIC, 12)).replace(/\+/g, '-').replace(/\//g, '_');
+      default:
+        return undefined;
+    }
+  }
+}
+
+/**
+ * Generate a deterministic sample value that parses against the schema
+ *
+ * Refinements the generator cannot see are handled by retrying with derived seeds; a schema
+ * that still rejects every attempt throws `ConfigError`.
+ */
+export function generateSample<T extends z.ZodType>(
+  schema: T,
+  options: SampleOptions = {}
+): z.input<T> {
+  const seed = options.seed ?? 1;
+  let issues: z.core.$ZodIssue[] = [];
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const random = new SeededRandom(attempt === 0 ? seed : hashSeed(`${seed}:${attempt}`));
+    const value = new SampleGenerator(random).generate(schema);
+    const result = schema.safeParse(value);
+    if (result.success) {
+      return value as z.input<T>;
+    }
+    issues = result.error.issues;
+  }
+
+  throw new ConfigError(
+    `Cannot generate a sample that satisfies the schema: ${issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join(', ')}`
+  );
+}
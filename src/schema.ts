@@ -1,5 +1,17 @@
 import { z } from 'zod';
-import type { Contract, EndpointDefinition } from './types';
+import type {
+  Contract,
+  ContractEndpoint,
+  ContractEndpointKey,
+  EndpointArgs,
+  EndpointDefinition,
+  HasRequestParts,
+  InferRequestParts,
+  InferSuccessResponses,
+} from './types';
+import { generateSample, type SampleOptions } from './sample';
+import { getEndpointByKey, hasRequestParts, REQUEST_PARTS } from './utils/contract';
+import { getSuccessResponse } from './validation';
 
 /**
  * Schema inference and extraction utilities
@@ -9,13 +21,21 @@ import type { Contract, EndpointDefinition } from './types';
  * Extract request type from endpoint definition
  */
 export type InferRequestType<T extends EndpointDefinition> = 
-  T['request'] extends z.ZodType ? z.infer<T['request']> : void;
+  T['request'] extends z.ZodType
+    ? z.infer<T['request']>
+    : HasRequestParts<T> extends true
+      ? InferRequestParts<T>
+      : void;
 
 /**
  * Extract response type from endpoint definition
  */
 export type InferResponseType<T extends EndpointDefinition> = 
-  T['response'] extends z.ZodType ? z.infer<T['response']> : unknown;
+  T['response'] extends z.ZodType
+    ? z.infer<T['response']>
+    : [InferSuccessResponses<T['responses']>] extends [never]
+      ? unknown
+      : InferSuccessResponses<T['responses']>;
 
 /**
  * Extract all endpoint types from a contract
@@ -119,6 +139,43 @@ export class SchemaExtractor<T extends Contract> {
     ) as Array<keyof T>;
   }
 
+  /**
+   * Generate a deterministic, schema-valid sample request or response for an endpoint
+   */
+  sample<K extends ContractEndpointKey<T>>(
+    key: K,
+    part: 'request',
+    options?: SampleOptions
+  ): InferRequestType<ContractEndpoint<T, K>>;
+  sample<K extends ContractEndpointKey<T>>(
+    key: K,
+    part: 'response',
+    options?: SampleOptions
+  ): InferResponseType<ContractEndpoint<T, K>>;
+  sample(key: string, part: 'request' | 'response', options: SampleOptions = {}): unknown {
+    const endpoint = getEndpointByKey(this.contract, key);
+    if (!endpoint) {
+      throw new Error(`Endpoint "${key}" not found or is not a valid endpoint`);
+    }
+
+    if (part === 'response') {
+      const { schema } = getSuccessResponse(endpoint);
+      return schema ? generateSample(schema, options) : undefined;
+    }
+
+    if (hasRequestParts(endpoint)) {
+      const request: Record<string, unknown> = {};
+      for (const name of REQUEST_PARTS) {
+        const schema = endpoint[name];
+        if (schema) {
+          request[name] = generateSample(schema, options);
+        }
+      }
+      return request;
+    }
+    return endpoint.request ? generateSample(endpoint.request, options) : undefined;
+  }
+
   /**
    * Generate OpenAPI-like schema description
    */
@@ -271,9 +328,7 @@ export function createSchemaExtractor<T extends Contract>(contract: T): SchemaEx
  * Utility type to infer endpoint method signature
  */
 export type InferEndpointMethod<T extends EndpointDefinition> = (
-  ...args: T['request'] extends z.ZodSchema 
-    ? [data: InferRequestType<T>] 
-    : []
+  ...args: EndpointArgs<T>
 ) => Promise<InferResponseType<T>>;
 
 /**
@@ -0,0 +1,148 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type {
+  Contract,
+  ContractEndpoint,
+  ContractEndpointKey,
+  EndpointDefinition,
+  InferRequestType,
+  InferResponseType,
+} from '../types';
+import { HttpError, ValidationError } from '../errors';
+import { getResponseSchema, validateIncomingRequest, validateResponse } from '../validation';
+
+/**
+ * Request details passed to server handlers
+ */
+export interface ServerRequestContext {
+  key: string;
+  endpoint: EndpointDefinition;
+  params: Record<string, string>;
+  req: IncomingMessage;
+  res: ServerResponse;
+}
+
+/**
+ * Handler reply with explicit status and headers
+ */
+export interface ServerReply<T = unknown> {
+  readonly __serverReply: true;
+  status: number;
+  headers: Record<string, string>;
+  data: T;
+}
+
+/**
+ * Server handler for a single endpoint
+ */
+export type ServerHandler<E extends EndpointDefinition> = (
+  input: InferRequestType<E>,
+  context: ServerRequestContext
+) =>
+  | InferResponseType<E>
+  | ServerReply<unknown>
+  | Promise<InferResponseType<E> | ServerReply<unknown>>;
+
+/**
+ * Server handlers keyed by dotted contract keys
+ */
+export type ServerHandlers<T extends Contract> = {
+  [K in ContractEndpointKey<T>]?: ServerHandler<ContractEndpoint<T, K>>;
+};
+
+/**
+ * Options shared by the node:http server and framework integrations
+ */
+export interface ServerOptions {
+  validateResponse?: boolean; // default: true
+  onError?: (error: unknown, req: IncomingMessage) => void; // Called for 5xx failures
+}
+
+/**
+ * Reply with a custom status or headers
+ */
+export function reply<T>(
+  data: T,
+  init: { status?: number; headers?: Record<string, string> } = {}
+): ServerReply<T> {
+  return { __serverReply: true, status: init.status ?? 200, headers: init.headers ?? {}, data };
+}
+
+function isServerReply(value: unknown): value is ServerReply {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { __serverReply?: unknown }).__serverReply === true
+  );
+}
+
+// Flatten node's header values to strings
+export function toHeaderRecord(headers: IncomingMessage['headers']): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      result[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Validate a received request, run its handler and validate the reply
+ *
+ * Always resolves: validation failures become 400 with `issues`, thrown `HttpError`s keep their
+ * status, anything else is 500. Resolves to `null` when the handler ended the response itself.
+ */
+export async function dispatchRequest(
+  handler: ServerHandler<EndpointDefinition> | undefined,
+  request: { query?: Record<string, unknown>; headers: Record<string, string>; body?: unknown },
+  context: ServerRequestContext,
+  options: ServerOptions = {}
+): Promise<ServerReply | null> {
+  const { key, endpoint, params, req, res } = context;
+  const fail = (error: unknown) => {
+    options.onError?.(error, req);
+    return reply({ message: 'Internal Server Error' }, { status: 500 });
+  };
+
+  if (!handler) {
+    return reply({ message: `Endpoint "${key}" is not implemented` }, { status: 501 });
+  }
+
+  let input: unknown;
+  try {
+    input = validateIncomingRequest(endpoint, { params, ...request });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return reply({ message: error.message, issues: error.issues }, { status: 400 });
+    }
+    return fail(error);
+  }
+
+  let result: unknown;
+  try {
+    result = await handler(input as never, context);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return reply(error.response ?? { message: error.message }, { status: error.status });
+    }
+    return fail(error);
+  }
+
+  if (res.writableEnded) {
+    return null;
+  }
+
+  const outgoing = isServerReply(result) ? result : reply(result);
+  if (options.validateResponse === false) {
+    return outgoing;
+  }
+
+  try {
+    return {
+      ...outgoing,
+      data: validateResponse(getResponseSchema(endpoint, outgoing.status), outgoing.data),
+    };
+  } catch (error) {
+    return fail(error);
+  }
+}
@@ -0,0 +1,64 @@
+import { json, Router, type ErrorRequestHandler } from 'express';
+import type { Contract, EndpointDefinition } from '../types';
+import { createRouteTable } from '../utils/contract';
+import {
+  dispatchRequest,
+  toHeaderRecord,
+  type ServerHandler,
+  type ServerHandlers,
+  type ServerOptions,
+} from './core';
+
+type RouterMethod = 'get' | 'post' | 'put' | 'delete' | 'patch' | 'head' | 'options';
+
+// Answer malformed JSON bodies like the node:http server does
+const handleParseError: ErrorRequestHandler = (error, _req, res, next) => {
+  if ((error as { type?: unknown })?.type === 'entity.parse.failed') {
+    res.status(400).json({ message: 'Invalid JSON body' });
+  } else {
+    next(error);
+  }
+};
+
+/**
+ * Create an Express router with one route per contract endpoint
+ *
+ * JSON bodies are parsed by the router; requests and replies are validated like `createServer`.
+ */
+export function toExpressRouter<T extends Contract>(
+  contract: T,
+  handlers: NoInfer<ServerHandlers<T>>,
+  options: ServerOptions = {}
+): Router {
+  const router = Router();
+  const registered = handlers as Record<string, ServerHandler<EndpointDefinition> | undefined>;
+
+  router.use(json());
+
+  for (const { key, endpoint } of createRouteTable(contract)) {
+    router[endpoint.method.toLowerCase() as RouterMethod](endpoint.path, async (req, res) => {
+      const result = await dispatchRequest(
+        registered[key],
+        { query: req.query, headers: toHeaderRecord(req.headers), body: req.body },
+        { key, endpoint, params: req.params as Record<string, string>, req, res },
+        options
+      );
+      if (!result) {
+        return;
+      }
+
+      res.status(result.status).set(result.headers);
+      if (result.data === undefined) {
+        res.end();
+      } else if (typeof result.data === 'string') {
+        res.send(result.data);
+      } else {
+        res.json(result.data);
+      }
+    });
+  }
+
+  router.use(handleParseError);
+
+  return router;
+}
@@ -0,0 +1,58 @@
+import type { FastifyPluginAsync, HTTPMethods } from 'fastify';
+import type { Contract, EndpointDefinition } from '../types';
+import { flattenContract } from '../utils/contract';
+import {
+  dispatchRequest,
+  toHeaderRecord,
+  type ServerHandler,
+  type ServerHandlers,
+  type ServerOptions,
+} from './core';
+
+/**
+ * Create a Fastify plugin with one route per contract endpoint
+ *
+ * Register it with `app.register(plugin, { prefix })`; requests and replies are validated like
+ * `createServer`.
+ */
+export function toFastifyPlugin<T extends Contract>(
+  contract: T,
+  handlers: NoInfer<ServerHandlers<T>>,
+  options: ServerOptions = {}
+): FastifyPluginAsync {
+  const registered = handlers as Record<string, ServerHandler<EndpointDefinition> | undefined>;
+
+  return async (fastify) => {
+    // Fastify's router ranks static segments over params itself
+    for (const { key, endpoint } of flattenContract(contract)) {
+      fastify.route({
+        method: endpoint.method.toUpperCase() as HTTPMethods,
+        url: endpoint.path,
+        handler: async (request, response) => {
+          const result = await dispatchRequest(
+            registered[key],
+            {
+              query: request.query as Record<string, unknown>,
+              headers: toHeaderRecord(request.headers),
+              body: request.body,
+            },
+            {
+              key,
+              endpoint,
+              params: request.params as Record<string, string>,
+              req: request.raw,
+              res: response.raw,
+            },
+            options
+          );
+          if (!result) {
+            response.hijack();
+            return;
+          }
+
+          return response.code(result.status).headers(result.headers).send(result.data);
+        },
+      });
+    }
+  };
+}
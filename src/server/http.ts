@@ -0,0 +1,187 @@
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type RequestListener,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { Contract, EndpointDefinition } from '../types';
+import { createRouteTable, matchRoute } from '../utils/contract';
+import { matchPath } from '../utils/path';
+import {
+  dispatchRequest,
+  toHeaderRecord,
+  type ServerHandler,
+  type ServerHandlers,
+  type ServerOptions,
+} from './core';
+
+/**
+ * node:http server options
+ */
+export interface HttpServerOptions extends ServerOptions {
+  basePath?: string; // Prefix stripped before routing, e.g. '/api'
+  bodyLimit?: number; // Largest accepted request body in bytes, larger ones get 413 (default: 1 MiB)
+}
+
+const DEFAULT_BODY_LIMIT = 1024 * 1024;
+
+// Thrown for malformed request bodies
+class BadRequestError extends Error {}
+
+// Thrown for request bodies over `bodyLimit`
+class PayloadTooLargeError extends Error {}
+
+async function readBody(req: IncomingMessage, limit: number): Promise<unknown> {
+  if (Number(req.headers['content-length']) > limit) {
+    throw new PayloadTooLargeError('Payload Too Large');
+  }
+
+  // Past the limit, keep draining without buffering so the 413 can still be sent
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size <= limit) {
+      chunks.push(buffer);
+    }
+  }
+  if (size > limit) {
+    throw new PayloadTooLargeError('Payload Too Large');
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) {
+    return undefined;
+  }
+  if (!String(req.headers['content-type'] ?? '').includes('json')) {
+    return text;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BadRequestError('Invalid JSON body');
+  }
+}
+
+// Repeated query keys become arrays
+function parseQuery(searchParams: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    query[key] = values.length > 1 ? values : values[0];
+  }
+  return query;
+}
+
+function isContentType(name: string): boolean {
+  return name.toLowerCase() === 'content-type';
+}
+
+function send(
+  res: ServerResponse,
+  status: number,
+  data: unknown,
+  headers: Record<string, string> = {}
+): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+
+  if (data === undefined) {
+    res.writeHead(status, headers).end();
+  } else if (typeof data === 'string' && !Object.keys(headers).some(isContentType)) {
+    res.writeHead(status, { 'content-type': 'text/plain; charset=utf-8', ...headers }).end(data);
+  } else {
+    const body = typeof data === 'string' ? data : JSON.stringify(data);
+    res.writeHead(status, { 'content-type': 'application/json', ...headers }).end(body);
+  }
+}
+
+/**
+ * Create a `node:http` request listener that routes requests to contract-keyed handlers
+ *
+ * Requests are validated against the endpoint's request schemas (400 with `issues` on failure)
+ * and replies against the response schema for their status (500 on failure).
+ */
+export function createRequestListener<T extends Contract>(
+  contract: T,
+  handlers: NoInfer<ServerHandlers<T>>,
+  options: HttpServerOptions = {}
+): RequestListener {
+  const routes = createRouteTable(contract);
+  const registered = handlers as Record<string, ServerHandler<EndpointDefinition> | undefined>;
+  const { basePath = '', bodyLimit = DEFAULT_BODY_LIMIT } = options;
+
+  return async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    let path = url.pathname;
+    if (basePath) {
+      if (path !== basePath && !path.startsWith(`${basePath}/`)) {
+        send(res, 404, { message: 'Not Found' });
+        return;
+      }
+      path = path.slice(basePath.length) || '/';
+    }
+
+    // HEAD falls back to the GET route; Node drops the body of responses to HEAD
+    const method = req.method ?? 'GET';
+    const match =
+      matchRoute(routes, method, path) ??
+      (method.toUpperCase() === 'HEAD' ? matchRoute(routes, 'GET', path) : null);
+    if (!match) {
+      const allowed = routes
+        .filter(({ endpoint }) => matchPath(endpoint.path, path))
+        .flatMap(({ endpoint }) => {
+          const allow = endpoint.method.toUpperCase();
+          return allow === 'GET' ? [allow, 'HEAD'] : [allow];
+        });
+      if (allowed.length > 0) {
+        send(res, 405, { message: 'Method Not Allowed' }, { allow: allowed.join(', ') });
+      } else {
+        send(res, 404, { message: 'Not Found' });
+      }
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readBody(req, bodyLimit);
+    } catch (error) {
+      if (error instanceof PayloadTooLargeError) {
+        send(res, 413, { message: error.message }, { connection: 'close' });
+      } else if (error instanceof BadRequestError) {
+        send(res, 400, { message: error.message });
+      } else {
+        options.onError?.(error, req);
+        send(res, 500, { message: 'Internal Server Error' });
+      }
+      return;
+    }
+
+    const { key, endpoint, params } = match;
+    const result = await dispatchRequest(
+      registered[key],
+      { query: parseQuery(url.searchParams), headers: toHeaderRecord(req.headers), body },
+      { key, endpoint, params, req, res },
+      options
+    );
+    if (result) {
+      send(res, result.status, result.data, result.headers);
+    }
+  };
+}
+
+/**
+ * Create a `node:http` server for a contract (call `listen()` to start it)
+ */
+export function createServer<T extends Contract>(
+  contract: T,
+  handlers: NoInfer<ServerHandlers<T>>,
+  options: HttpServerOptions = {}
+): Server {
+  return createHttpServer(createRequestListener(contract, handlers, options));
+}
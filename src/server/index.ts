@@ -0,0 +1,16 @@
+export {
+  reply,
+  dispatchRequest,
+  type ServerHandler,
+  type ServerHandlers,
+  type ServerOptions,
+  type ServerReply,
+  type ServerRequestContext,
+} from './core';
+export { createServer, createRequestListener, type HttpServerOptions } from './http';
+export {
+  startMockServer,
+  type MockServer,
+  type MockServerOptions,
+  type MockServerOverrides,
+} from './mock';
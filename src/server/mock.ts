@@ -0,0 +1,99 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import type {
+  Contract,
+  ContractEndpoint,
+  ContractEndpointKey,
+  EndpointDefinition,
+  InferResponseType,
+} from '../types';
+import { flattenContract } from '../utils/contract';
+import { generateSample, hashSeed } from '../sample';
+import { getSuccessResponse } from '../validation';
+import { reply, type ServerHandler, type ServerOptions } from './core';
+import { createServer } from './http';
+
+/**
+ * Per-endpoint mock server override: a handler or a fixed response body
+ */
+export type MockServerOverrides<T extends Contract> = {
+  [K in ContractEndpointKey<T>]?:
+    | ServerHandler<ContractEndpoint<T, K>>
+    | InferResponseType<ContractEndpoint<T, K>>;
+};
+
+/**
+ * Mock server options
+ */
+export interface MockServerOptions<T extends Contract> extends ServerOptions {
+  port?: number; // default: 4010 (0 picks a free port)
+  host?: string; // default: 127.0.0.1
+  basePath?: string;
+  seed?: number | string; // Fixes generated data; same seed + request URL, same response
+  overrides?: NoInfer<MockServerOverrides<T>>;
+}
+
+/**
+ * Running mock server
+ */
+export interface MockServer {
+  server: Server;
+  url: string;
+  close(): Promise<void>;
+}
+
+// Handler answering with data generated from the endpoint's success schema
+function sampleHandler(
+  key: string,
+  endpoint: EndpointDefinition,
+  seed: number | string
+): ServerHandler<EndpointDefinition> {
+  const { status, schema } = getSuccessResponse(endpoint);
+  return (_input, { req }) => {
+    const data = schema
+      ? generateSample(schema, { seed: hashSeed(`${seed}:${key}:${req.url ?? ''}`) })
+      : undefined;
+    return reply(data, { status });
+  };
+}
+
+/**
+ * Start a local HTTP server that answers every contract endpoint with schema-generated data
+ */
+export async function startMockServer<T extends Contract>(
+  contract: T,
+  options: MockServerOptions<T> = {}
+): Promise<MockServer> {
+  const { port = 4010, host = '127.0.0.1', seed = 1, overrides = {}, ...serverOptions } = options;
+  const handlers: Record<string, ServerHandler<EndpointDefinition>> = {};
+
+  for (const { key, endpoint } of flattenContract(contract)) {
+    const override = (overrides as Record<string, unknown>)[key];
+    if (typeof override === 'function') {
+      handlers[key] = override as ServerHandler<EndpointDefinition>;
+    } else if (override !== undefined) {
+      handlers[key] = () => override;
+    } else {
+      handlers[key] = sampleHandler(key, endpoint, seed);
+    }
+  }
+
+  const server = createServer(contract, handlers as never, serverOptions);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  return {
+    server,
+    url: `http://${host}:${address.port}${serverOptions.basePath ?? ''}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
@@ -1,18 +1,48 @@
 import { z } from 'zod';
 import type { AxiosInstance } from 'axios';
 import type { SchemaExtractor } from './schema';
+import type {
+  AbortError,
+  ConfigError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  ZodseiError,
+} from './errors';
 
 // HTTP method types
 export type HttpMethod = 'get' | 'post' | 'put' | 'delete' | 'patch' | 'head' | 'options';
 
+// Status-code-specific response schemas, e.g. { 200: User, 404: NotFound }
+export type ResponseSchemas = { [status: number]: z.ZodType };
+
 // Endpoint definition interface
 export interface EndpointDefinition {
   path: string;
   method: HttpMethod;
   request?: z.ZodType;
   response?: z.ZodType;
+  responses?: ResponseSchemas;
+  // Structured request parts - replace `request` with { params, query, headers, body } input
+  params?: z.ZodType;
+  query?: z.ZodType;
+  headers?: z.ZodType;
+  body?: z.ZodType;
+  timeout?: number; // Request timeout (milliseconds), enforced by the client; per-call `timeout` wins
+  idempotent?: boolean; // Safe to retry regardless of method (see `retryMiddleware`)
+  cache?: EndpointCacheOptions;
+  invalidates?: readonly string[]; // Cache tags evicted after a successful call (see `cacheMiddleware`)
+}
+
+// Per-endpoint options for `cacheMiddleware`
+export interface EndpointCacheOptions {
+  tags?: readonly string[]; // Tags attached to cached responses, evicted by endpoints that `invalidates` them
 }
 
+// Structured request part keys
+export type RequestPart = 'params' | 'query' | 'headers' | 'body';
+
 // Contract type
 /**
  * Contract definition - can be nested
@@ -25,19 +55,74 @@ export interface Contract {
  * Helper function to define a contract with proper type inference
  * Preserves literal types while ensuring type safety
  * Supports nested contracts
+ * Flags endpoints whose request schema does not provide every `:param` in the path
  */
-export function defineContract<T extends Contract>(contract: T): T {
+export function defineContract<const T extends Contract>(contract: T & ValidateContract<T>): T {
   return contract;
 }
 
+// Path parameter names provided by an endpoint's request (or `params`) schema
+type ProvidedPathParams<T extends EndpointDefinition> = T['params'] extends z.ZodType
+  ? keyof z.input<T['params']>
+  : T['request'] extends z.ZodType
+    ? z.input<T['request']> extends object
+      ? keyof z.input<T['request']>
+      : never
+    : never;
+
+// Path parameter names missing from an endpoint's request schema
+export type MissingPathParams<T extends EndpointDefinition> = Exclude<
+  keyof ExtractPathParams<T['path']>,
+  ProvidedPathParams<T>
+>;
+
+/**
+ * Contract check: endpoints missing path params require a
+ * `'missing path param: <name>'` property, which surfaces as a compile error
+ */
+export type ValidateContract<T> = {
+  [K in keyof T]: T[K] extends EndpointDefinition
+    ? [MissingPathParams<T[K]>] extends [never]
+      ? T[K]
+      : T[K] & { [P in `missing path param: ${MissingPathParams<T[K]> & string}`]: never }
+    : T[K] extends Contract
+      ? ValidateContract<T[K]>
+      : T[K];
+};
+
+/**
+ * Dotted keys of every endpoint in a (nested) contract, e.g. `'users.getById'`
+ */
+export type ContractEndpointKey<T extends Contract, P extends string = ''> = {
+  [K in keyof T & string]: T[K] extends EndpointDefinition
+    ? `${P}${K}`
+    : T[K] extends Contract
+      ? ContractEndpointKey<T[K], `${P}${K}.`>
+      : never;
+}[keyof T & string];
+
+/**
+ * Endpoint definition at a dotted contract key
+ */
+export type ContractEndpoint<T, K extends string> = K extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof T
+    ? ContractEndpoint<T[Head], Rest>
+    : never
+  : K extends keyof T
+    ? T[K] extends EndpointDefinition
+      ? T[K]
+      : never
+    : never;
+
 /**
  * Create client type from contract - supports nested access with schema support
+ * TThrow = false when the client was created with `throwOnError: false`
  */
-export type ApiClient<T extends Contract> = {
+export type ApiClient<T extends Contract, TThrow extends boolean = true> = {
   [K in keyof T]: T[K] extends EndpointDefinition
-    ? EndpointMethodWithSchema<T[K]>
+    ? EndpointMethodWithSchema<T[K], TThrow>
     : T[K] extends Contract
-      ? ApiClient<T[K]>
+      ? ApiClient<T[K], TThrow>
       : never;
 } & {
   $schema: SchemaExtractor<T>;
@@ -48,20 +133,43 @@ interface BaseClientConfig {
   validateRequest?: boolean;
   validateResponse?: boolean;
   middleware?: Middleware[];
+  throwOnError?: boolean; // false: endpoint methods resolve to a ZodseiResult
 }
 
-// Type-safe client configuration with conditional adapterConfig
-export type ClientConfig = BaseClientConfig & {
-  // User must provide an Axios instance
-  axios: AxiosInstance;
-};
+// Type-safe client configuration: either an Axios instance or a custom adapter
+export type ClientConfig = BaseClientConfig &
+  (
+    | {
+        // Axios instance, wrapped in the built-in AxiosAdapter
+        axios: AxiosInstance;
+        adapter?: never;
+      }
+    | {
+        // Any HttpAdapter implementation (e.g. FetchAdapter)
+        adapter: HttpAdapter;
+        axios?: never;
+      }
+  );
 
 // Internal configuration type for client implementation
 export interface InternalClientConfig {
   validateRequest: boolean;
   validateResponse: boolean;
+  throwOnError: boolean;
   middleware: Middleware[];
-  axios: AxiosInstance;
+  axios?: AxiosInstance;
+  adapter?: HttpAdapter;
+}
+
+/**
+ * HTTP adapter - performs the actual request for a client.
+ * Implementations must throw HttpError for 4xx/5xx responses,
+ * TimeoutError on timeouts and NetworkError for everything else.
+ */
+export interface HttpAdapter {
+  readonly name: string;
+  readonly baseURL?: string; // Base URL relative request URLs are resolved against, if any
+  request(context: RequestContext): Promise<ResponseContext>;
 }
 
 // Middleware types
@@ -78,6 +186,23 @@ export interface RequestContext {
   body?: unknown;
   params?: Record<string, string>;
   query?: Record<string, unknown>;
+  signal?: AbortSignal;
+  timeout?: number; // Request timeout (milliseconds)
+  meta?: Record<string, unknown>;
+  endpoint?: string; // Dotted contract key of the called endpoint, e.g. `users.getById`
+  baseURL?: string; // The adapter's base URL, which relative `url`s are sent to
+  idempotent?: boolean; // From the endpoint definition
+  cache?: EndpointCacheOptions; // From the endpoint definition
+  invalidates?: readonly string[]; // From the endpoint definition
+}
+
+// Per-call request options (second argument of endpoint methods)
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  timeout?: number; // Request timeout (milliseconds)
+  query?: Record<string, unknown>; // Extra query parameters
+  meta?: Record<string, unknown>; // Arbitrary data for middleware
 }
 
 // Response context
@@ -97,11 +222,11 @@ export type ExtractPathParams<T extends string> =
       : object;
 
 // Request data separation type
-export type SeparateRequestData<T> =
+export type SeparateRequestData<T, P extends string = string> =
   T extends Record<string, unknown>
     ? {
-        pathParams: ExtractPathParams<string>;
-        queryParams: Omit<T, keyof ExtractPathParams<string>>;
+        pathParams: ExtractPathParams<P>;
+        queryParams: Omit<T, keyof ExtractPathParams<P>>;
         body: T;
       }
     : {
@@ -112,27 +237,139 @@ export type SeparateRequestData<T> =
 
 // Schema inference types
 export type InferRequestType<T extends EndpointDefinition> = 
-  T['request'] extends z.ZodType ? z.infer<T['request']> : void;
+  T['request'] extends z.ZodType
+    ? z.infer<T['request']>
+    : HasRequestParts<T> extends true
+      ? InferRequestParts<T>
+      : void;
+
+// Whether an endpoint declares any structured request part
+export type HasRequestParts<T extends EndpointDefinition> = true extends {
+  [K in RequestPart]: T[K] extends z.ZodType ? true : false;
+}[RequestPart]
+  ? true
+  : false;
+
+// Structured input, e.g. { params: { id: string }; body: { name: string } }
+export type InferRequestParts<T extends EndpointDefinition> = {
+  [K in RequestPart as T[K] extends z.ZodType ? K : never]: T[K] extends z.ZodType
+    ? z.infer<T[K]>
+    : never;
+};
+
+// Parts a caller may leave out: those whose schema accepts `{}`, e.g. an object of optional fields
+export type OptionalRequestPart<T extends EndpointDefinition> = {
+  [K in RequestPart]: T[K] extends z.ZodType
+    ? Record<string, never> extends z.input<T[K]>
+      ? K
+      : never
+    : never;
+}[RequestPart];
+
+// Structured call input, with optional parts left optional
+export type InferRequestPartsInput<T extends EndpointDefinition> = Omit<
+  InferRequestParts<T>,
+  OptionalRequestPart<T>
+> &
+  Partial<Pick<InferRequestParts<T>, OptionalRequestPart<T> & keyof InferRequestParts<T>>>;
 
 export type InferResponseType<T extends EndpointDefinition> = 
-  T['response'] extends z.ZodType ? z.infer<T['response']> : unknown;
+  T['response'] extends z.ZodType
+    ? z.infer<T['response']>
+    : [InferSuccessResponses<T['responses']>] extends [never]
+      ? unknown
+      : InferSuccessResponses<T['responses']>;
+
+// Union of the 2xx bodies declared in `responses`
+export type InferSuccessResponses<R> = R extends ResponseSchemas
+  ? {
+      [S in keyof R]: S extends number
+        ? `${S}` extends `2${string}`
+          ? R[S] extends z.ZodType
+            ? z.infer<R[S]>
+            : never
+          : never
+        : never;
+    }[keyof R]
+  : never;
+
+// Discriminated union of the non-2xx errors declared in `responses`
+export type InferErrorType<T extends EndpointDefinition> = T['responses'] extends ResponseSchemas
+  ? {
+      [S in keyof T['responses']]: S extends number
+        ? `${S}` extends `2${string}`
+          ? never
+          : T['responses'][S] extends z.ZodType
+            ? HttpError<S, z.infer<T['responses'][S]>>
+            : never
+        : never;
+    }[keyof T['responses']]
+  : never;
+
+// Every error an endpoint call can produce
+export type InferEndpointError<T extends EndpointDefinition> =
+  | InferErrorType<T>
+  | ValidationError
+  | HttpError
+  | NetworkError
+  | TimeoutError
+  | AbortError
+  | ConfigError
+  | ZodseiError;
+
+// Non-throwing call result
+export type ZodseiResult<TData, TError = ZodseiError> =
+  | { ok: true; data: TData; error?: undefined }
+  | { ok: false; data?: undefined; error: TError };
+
+export type InferEndpointResult<T extends EndpointDefinition> = ZodseiResult<
+  InferResponseType<T>,
+  InferEndpointError<T>
+>;
+
+// Validated data together with the response metadata
+export interface ZodseiResponse<TData = unknown> {
+  data: TData;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  request: RequestContext;
+}
+
+// Endpoint method arguments
+export type EndpointArgs<T extends EndpointDefinition> = T['request'] extends z.ZodType
+  ? [data: InferRequestType<T>, options?: RequestOptions]
+  : HasRequestParts<T> extends true
+    ? Record<string, never> extends InferRequestPartsInput<T>
+      ? [data?: InferRequestPartsInput<T>, options?: RequestOptions]
+      : [data: InferRequestPartsInput<T>, options?: RequestOptions]
+    : [options?: RequestOptions];
 
 // Enhanced endpoint method with schema access
-export interface EndpointMethodWithSchema<T extends EndpointDefinition> {
+export interface EndpointMethodWithSchema<
+  T extends EndpointDefinition,
+  TThrow extends boolean = true,
+> {
   (
-    ...args: T['request'] extends z.ZodType 
-      ? [data: InferRequestType<T>] 
-      : []
-  ): Promise<InferResponseType<T>>;
+    ...args: EndpointArgs<T>
+  ): Promise<TThrow extends true ? InferResponseType<T> : InferEndpointResult<T>>;
+  // Never throws: resolves to { ok: true, data } or { ok: false, error }
+  safe(...args: EndpointArgs<T>): Promise<InferEndpointResult<T>>;
+  // Resolves to the validated data plus status, headers and the sent request
+  raw(...args: EndpointArgs<T>): Promise<ZodseiResponse<InferResponseType<T>>>;
   schema: {
     request: T['request'];
     response: T['response'];
+    responses: T['responses'];
     endpoint: T;
   };
   infer: {
     request: InferRequestType<T>;
     response: InferResponseType<T>;
+    error: InferErrorType<T>;
   };
+  // Check whether an error is one of the endpoint's declared error responses
+  isError(error: unknown): error is InferErrorType<T>;
 }
 
 // Legacy type alias for backward compatibility
@@ -0,0 +1,112 @@
+import type { z } from 'zod';
+
+/**
+ * Coercion of wire strings (path params, query strings, headers) to schema types
+ */
+
+type SchemaDef = z.core.$ZodTypeDef & { [key: string]: unknown };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function coerceNumber(value: string): number | string {
+  const number = value.trim() === '' ? NaN : Number(value);
+  return Number.isNaN(number) ? value : number;
+}
+
+function coerceBigInt(value: string): bigint | string {
+  try {
+    return BigInt(value);
+  } catch {
+    return value;
+  }
+}
+
+// Enum and literal values that were serialized with String()
+function matchSerialized(values: unknown[], value: string): unknown {
+  return values.find((candidate) => String(candidate) === value) ?? value;
+}
+
+/**
+ * Convert strings in `value` to the types `schema` expects: numbers, bigints, booleans, dates,
+ * non-string literals and enums, and arrays (a single value becomes a one-item array).
+ *
+ * Values that don't convert cleanly are left as is, so validation still reports them.
+ */
+export function coerceWireValue(schema: z.ZodType, value: unknown): unknown {
+  const def = schema._zod.def as SchemaDef;
+
+  switch (def.type) {
+    case 'optional':
+    case 'nullable':
+    case 'default':
+    case 'prefault':
+    case 'catch':
+    case 'readonly':
+    case 'nonoptional':
+      return value === undefined ? value : coerceWireValue(def.innerType as z.ZodType, value);
+    case 'pipe':
+      return coerceWireValue(def.in as z.ZodType, value);
+    case 'lazy':
+      return coerceWireValue((def.getter as () => z.ZodType)(), value);
+    case 'object': {
+      if (!isPlainObject(value)) return value;
+      const shape = def.shape as Record<string, z.ZodType>;
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          shape[key] ? coerceWireValue(shape[key], item) : item,
+        ])
+      );
+    }
+    case 'record': {
+      if (!isPlainObject(value)) return value;
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          coerceWireValue(def.valueType as z.ZodType, item),
+        ])
+      );
+    }
+    case 'array': {
+      const items = Array.isArray(value) ? value : typeof value === 'string' ? [value] : null;
+      return items ? items.map((item) => coerceWireValue(def.element as z.ZodType, item)) : value;
+    }
+    case 'union': {
+      // First option that accepts the coerced value, e.g. `z.number().or(z.literal('all'))`
+      for (const option of def.options as z.ZodType[]) {
+        const coerced = coerceWireValue(option, value);
+        if (option.safeParse(coerced).success) return coerced;
+      }
+      return value;
+    }
+    case 'intersection':
+      return coerceWireValue(def.right as z.ZodType, coerceWireValue(def.left as z.ZodType, value));
+  }
+
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  switch (def.type) {
+    case 'number':
+      return coerceNumber(value);
+    case 'bigint':
+      return coerceBigInt(value);
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'date': {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date;
+    }
+    case 'null':
+      return value === 'null' ? null : value;
+    case 'literal':
+      return matchSerialized(def.values as unknown[], value);
+    case 'enum':
+      return matchSerialized(Object.values(def.entries as Record<string, unknown>), value);
+    default:
+      return value;
+  }
+}
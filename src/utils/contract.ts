@@ -0,0 +1,89 @@
+/**
+ * Contract traversal utility functions
+ */
+import type { Contract, EndpointDefinition, RequestPart } from '../types';
+import { extractPathParamNames, matchPath } from './path';
+
+// Structured request parts, in validation order
+export const REQUEST_PARTS: readonly RequestPart[] = ['params', 'query', 'headers', 'body'];
+
+// Check if a value is an endpoint definition
+export function isEndpointDefinition(value: unknown): value is EndpointDefinition {
+  return typeof value === 'object' && value !== null && 'path' in value && 'method' in value;
+}
+
+// Check if a value is a nested contract
+export function isNestedContract(value: unknown): value is Contract {
+  return typeof value === 'object' && value !== null && !isEndpointDefinition(value);
+}
+
+// Check if an endpoint declares structured request parts (params/query/headers/body)
+export function hasRequestParts(endpoint: EndpointDefinition): boolean {
+  return REQUEST_PARTS.some((part) => endpoint[part] !== undefined);
+}
+
+// Check if an endpoint method takes an input argument
+export function hasRequestInput(endpoint: EndpointDefinition): boolean {
+  return Boolean(endpoint.request) || hasRequestParts(endpoint);
+}
+
+// Flatten a (nested) contract into dotted endpoint keys, e.g. `users.getById`
+export function flattenContract(
+  contract: Contract,
+  prefix = ''
+): Array<{ key: string; endpoint: EndpointDefinition }> {
+  const entries: Array<{ key: string; endpoint: EndpointDefinition }> = [];
+
+  for (const [name, value] of Object.entries(contract)) {
+    const key = prefix ? `${prefix}.${name}` : name;
+    if (isEndpointDefinition(value)) {
+      entries.push({ key, endpoint: value });
+    } else if (isNestedContract(value)) {
+      entries.push(...flattenContract(value, key));
+    }
+  }
+
+  return entries;
+}
+
+// Resolve an endpoint by its dotted key
+export function getEndpointByKey(contract: Contract, key: string): EndpointDefinition | undefined {
+  let current: unknown = contract;
+  for (const part of key.split('.')) {
+    if (!isNestedContract(current) || !(part in current)) {
+      return undefined;
+    }
+    current = current[part];
+  }
+  return isEndpointDefinition(current) ? current : undefined;
+}
+
+// Contract endpoint with its dotted key
+export interface ContractRoute {
+  key: string;
+  endpoint: EndpointDefinition;
+}
+
+// Flatten a contract for routing; literal segments win over params ('/users/me' before '/users/:id')
+export function createRouteTable(contract: Contract): ContractRoute[] {
+  return flattenContract(contract).sort(
+    (a, b) =>
+      extractPathParamNames(a.endpoint.path).length - extractPathParamNames(b.endpoint.path).length
+  );
+}
+
+// Find the route for a method and concrete path, with its decoded path params
+export function matchRoute(
+  routes: ContractRoute[],
+  method: string,
+  path: string
+): (ContractRoute & { params: Record<string, string> }) | null {
+  for (const route of routes) {
+    if (route.endpoint.method.toLowerCase() !== method.toLowerCase()) continue;
+    const params = matchPath(route.endpoint.path, path);
+    if (params) {
+      return { ...route, params };
+    }
+  }
+  return null;
+}
@@ -1,6 +1,7 @@
 /**
  * Path handling utility functions
  */
+import { ConfigError } from '../errors';
 
 // Extract path parameter names
 export function extractPathParamNames(path: string): string[] {
@@ -10,6 +11,15 @@ export function extractPathParamNames(path: string): string[] {
 
 // Replace path parameters
 export function replacePath(path: string, params: Record<string, string>): string {
+  const missing = extractPathParamNames(path).filter((name) => params[name] === undefined);
+  if (missing.length > 0) {
+    throw new ConfigError(
+      `Missing path parameter${missing.length > 1 ? 's' : ''} ${missing
+        .map((name) => `":${name}"`)
+        .join(', ')} for "${path}"`
+    );
+  }
+
   let result = path;
 
   for (const [key, value] of Object.entries(params)) {
@@ -44,6 +54,15 @@ export function buildUrl(path: string, query?: Record<string, unknown>): string
   return `${cleanPath}${queryString}`;
 }
 
+// Replace the URL's query string with `query`; URLs are left alone when there is no query
+export function applyQuery(url: string, query?: Record<string, unknown>): string {
+  if (!query) {
+    return url;
+  }
+  const start = url.indexOf('?');
+  return `${start === -1 ? url : url.slice(0, start)}${buildQueryString(query)}`;
+}
+
 // Separate path params and query params
 export function separateParams(
   path: string,
@@ -73,3 +92,33 @@ export function separateParams(
 export function shouldHaveBody(method: string): boolean {
   return !['GET', 'HEAD', 'DELETE'].includes(method.toUpperCase());
 }
+
+// Match a concrete path against a path template, returning decoded params or null
+export function matchPath(template: string, path: string): Record<string, string> | null {
+  const clean = (value: string) => value.split('?')[0].replace(/\/+$/, '') || '/';
+  const templateSegments = clean(template).split('/');
+  const pathSegments = clean(path).split('/');
+
+  if (templateSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < templateSegments.length; i++) {
+    const expected = templateSegments[i];
+    const actual = pathSegments[i];
+
+    if (expected.startsWith(':')) {
+      if (!actual) return null;
+      try {
+        params[expected.slice(1)] = decodeURIComponent(actual);
+      } catch {
+        return null;
+      }
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+
+  return params;
+}
@@ -0,0 +1,226 @@
+/**
+ * Regular expression sampling - builds strings that match simple patterns
+ */
+
+// Source of randomness (see SeededRandom)
+interface RandomSource {
+  int(min: number, max: number): number;
+}
+
+type RegexNode =
+  | { type: 'alternation'; options: RegexNode[] }
+  | { type: 'sequence'; items: Array<{ node: RegexNode; min: number; max: number }> }
+  | { type: 'chars'; chars: string };
+
+// Extra repetitions for unbounded quantifiers (`*`, `+`, `{n,}`)
+const UNBOUNDED_EXTRA = 3;
+
+const PRINTABLE = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join('');
+const DIGITS = '0123456789';
+const WORD = `abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ${DIGITS}_`;
+const SPACE = ' ';
+
+function complement(chars: string): string {
+  return [...PRINTABLE].filter((char) => !chars.includes(char)).join('');
+}
+
+// Thrown for constructs we cannot generate from (lookarounds, backreferences)
+class UnsupportedPattern extends Error {}
+
+/**
+ * Recursive-descent parser for the subset of regex syntax used in schemas
+ */
+class RegexParser {
+  private index = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): RegexNode {
+    const node = this.alternation();
+    if (this.index < this.source.length) {
+      throw new UnsupportedPattern(`Unexpected "${this.source[this.index]}"`);
+    }
+    return node;
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.index];
+  }
+
+  private alternation(): RegexNode {
+    const options = [this.sequence()];
+    while (this.peek() === '|') {
+      this.index++;
+      options.push(this.sequence());
+    }
+    return options.length === 1 ? options[0] : { type: 'alternation', options };
+  }
+
+  private sequence(): RegexNode {
+    const items: Array<{ node: RegexNode; min: number; max: number }> = [];
+    while (this.index < this.source.length && this.peek() !== '|' && this.peek() !== ')') {
+      const node = this.atom();
+      if (node) {
+        items.push({ node, ...this.quantifier() });
+      }
+    }
+    return { type: 'sequence', items };
+  }
+
+  private atom(): RegexNode | null {
+    const char = this.source[this.index++];
+    switch (char) {
+      case '^':
+      case '$':
+        return null;
+      case '.':
+        return { type: 'chars', chars: PRINTABLE };
+      case '(':
+        return this.group();
+      case '[':
+        return { type: 'chars', chars: this.characterClass() };
+      case '\\':
+        return { type: 'chars', chars: this.escape() };
+      default:
+        return { type: 'chars', chars: char };
+    }
+  }
+
+  private group(): RegexNode {
+    if (this.peek() === '?') {
+      if (this.source[this.index + 1] !== ':') {
+        throw new UnsupportedPattern('Lookarounds and named groups are not supported');
+      }
+      this.index += 2;
+    }
+    const node = this.alternation();
+    if (this.source[this.index++] !== ')') {
+      throw new UnsupportedPattern('Unterminated group');
+    }
+    return node;
+  }
+
+  private characterClass(): string {
+    const negated = this.peek() === '^';
+    if (negated) this.index++;
+
+    let chars = '';
+    while (this.index < this.source.length && this.peek() !== ']') {
+      let start = this.source[this.index++];
+      if (start === '\\') {
+        const escaped = this.escape();
+        if (escaped.length > 1) {
+          chars += escaped;
+          continue;
+        }
+        start = escaped;
+      }
+
+      if (this.peek() === '-' && this.source[this.index + 1] !== ']') {
+        this.index++;
+        let end = this.source[this.index++];
+        if (end === '\\') end = this.escape();
+        for (let code = start.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+          chars += String.fromCharCode(code);
+        }
+      } else {
+        chars += start;
+      }
+    }
+    this.index++; // ]
+
+    return negated ? complement(chars) : chars;
+  }
+
+  private escape(): string {
+    const char = this.source[this.index++];
+    switch (char) {
+      case 'd':
+        return DIGITS;
+      case 'D':
+        return complement(DIGITS);
+      case 'w':
+        return WORD;
+      case 'W':
+        return complement(WORD);
+      case 's':
+        return SPACE;
+      case 'S':
+        return complement(SPACE);
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'x':
+      case 'u': {
+        const length = char === 'x' ? 2 : 4;
+        const hex = this.source.slice(this.index, this.index + length);
+        this.index += length;
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      default:
+        if (/[1-9bBk]/.test(char)) {
+          throw new UnsupportedPattern('Backreferences and word boundaries are not supported');
+        }
+        return char;
+    }
+  }
+
+  private quantifier(): { min: number; max: number } {
+    let range = { min: 1, max: 1 };
+    const char = this.peek();
+
+    if (char === '*') {
+      range = { min: 0, max: UNBOUNDED_EXTRA };
+    } else if (char === '+') {
+      range = { min: 1, max: 1 + UNBOUNDED_EXTRA };
+    } else if (char === '?') {
+      range = { min: 0, max: 1 };
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(this.index));
+      if (!match) {
+        return range;
+      }
+      const min = Number(match[1]);
+      const max = match[2] ? (match[3] ? Number(match[3]) : min + UNBOUNDED_EXTRA) : min;
+      this.index += match[0].length - 1;
+      range = { min, max };
+    } else {
+      return range;
+    }
+
+    this.index++;
+    if (this.peek() === '?') this.index++; // Lazy modifier
+    return range;
+  }
+}
+
+function generate(node: RegexNode, random: RandomSource): string {
+  switch (node.type) {
+    case 'alternation':
+      return generate(node.options[random.int(0, node.options.length - 1)], random);
+    case 'sequence':
+      return node.items
+        .map(({ node: item, min, max }) =>
+          Array.from({ length: random.int(min, max) }, () => generate(item, random)).join('')
+        )
+        .join('');
+    case 'chars':
+      return node.chars[random.int(0, node.chars.length - 1)] ?? '';
+  }
+}
+
+/**
+ * Generate a string matching a regular expression, or undefined if the pattern uses
+ * unsupported constructs (lookarounds, backreferences, word boundaries)
+ */
+export function sampleRegex(pattern: RegExp, random: RandomSource): string | undefined {
+  try {
+    return generate(new RegexParser(pattern.source).parse(), random);
+  } catch (error) {
+    if (error instanceof UnsupportedPattern) {
+      return undefined;
+    }
+    throw error;
+  }
+}
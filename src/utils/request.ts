@@ -6,6 +6,14 @@
  * These functions are kept for backward compatibility and potential future use.
  */
 
+import type { RequestContext } from '../types';
+
+/**
+ * How middleware groups requests: all together, per endpoint (dotted contract key), per URL
+ * origin (relative URLs resolved against the adapter's `baseURL`), or by a custom key
+ */
+export type RequestScope = 'global' | 'endpoint' | 'origin' | ((request: RequestContext) => string);
+
 // Simple header merging utility
 export function mergeHeaders(
   defaultHeaders: Record<string, string>,
@@ -16,3 +24,58 @@ export function mergeHeaders(
     ...requestHeaders,
   };
 }
+
+// Case-insensitive header lookup
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === lower);
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * Delay (milliseconds) requested by a server through `Retry-After` (seconds or HTTP date) or,
+ * failing that, `X-RateLimit-Reset` (epoch seconds or seconds from now); undefined if neither
+ */
+export function getRetryDelay(
+  headers: Record<string, string>,
+  now: number = Date.now()
+): number | undefined {
+  const retryAfter = getHeader(headers, 'retry-after')?.trim();
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = Number(getHeader(headers, 'x-ratelimit-reset'));
+  if (Number.isFinite(reset) && reset > 0) {
+    // Large values are timestamps rather than durations
+    return Math.max(0, reset > 1e9 ? reset * 1000 - now : reset * 1000);
+  }
+
+  return undefined;
+}
+
+// Group key of a request for the given scope
+export function getScopeKey(request: RequestContext, scope: RequestScope): string {
+  if (typeof scope === 'function') {
+    return scope(request);
+  }
+  if (scope === 'global') {
+    return '*';
+  }
+  if (scope === 'origin') {
+    try {
+      return new URL(request.url, request.baseURL).origin;
+    } catch {
+      // Relative URL and an adapter without a base URL
+      return '';
+    }
+  }
+  return request.endpoint ?? `${request.method.toUpperCase()} ${request.url.split('?')[0]}`;
+}
@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { ValidationError } from './errors';
+import type { EndpointDefinition } from './types';
+import { REQUEST_PARTS, hasRequestParts } from './utils/contract';
+import { coerceWireValue } from './utils/coerce';
 
 /**
  * Validation utility functions
@@ -37,6 +40,102 @@ export function validateResponse<T>(schema: z.ZodType<T> | undefined, data: unkn
   }
 }
 
+// Validate structured request parts, reporting issues as e.g. `params.id`
+export function validateRequestParts(
+  endpoint: EndpointDefinition,
+  data: unknown
+): Record<string, unknown> {
+  const input =
+    typeof data === 'object' && data !== null ? (data as Record<string, unknown>) : {};
+  const result: Record<string, unknown> = {};
+  const issues: z.core.$ZodIssue[] = [];
+
+  for (const part of REQUEST_PARTS) {
+    const schema = endpoint[part];
+    if (!schema) continue;
+
+    // A missing part is parsed as `{}`, so parts whose fields are all optional can be left out
+    let parsed = schema.safeParse(input[part]);
+    if (!parsed.success && input[part] === undefined) {
+      const empty = schema.safeParse({});
+      if (empty.success) parsed = empty;
+    }
+    if (parsed.success) {
+      result[part] = parsed.data;
+    } else {
+      issues.push(
+        ...parsed.error.issues.map((issue) => ({ ...issue, path: [part, ...issue.path] }))
+      );
+    }
+  }
+
+  if (issues.length > 0) {
+    throw ValidationError.fromZodError(new z.ZodError(issues), 'request');
+  }
+
+  return result;
+}
+
+// Rebuild and validate an endpoint's input from a received request (mock adapter, servers)
+export function validateIncomingRequest(
+  endpoint: EndpointDefinition,
+  request: {
+    params: Record<string, string>;
+    query?: Record<string, unknown>;
+    headers?: Record<string, unknown>;
+    body?: unknown;
+  }
+): unknown {
+  // Path params, query strings and headers arrive as strings: coerce them to the schema's types
+  const coerce = (schema: z.ZodType | undefined, value: unknown) =>
+    schema ? coerceWireValue(schema, value) : value;
+
+  if (hasRequestParts(endpoint)) {
+    return validateRequestParts(endpoint, {
+      params: coerce(endpoint.params, request.params),
+      query: coerce(endpoint.query, request.query),
+      headers: coerce(endpoint.headers, request.headers),
+      body: request.body,
+    });
+  }
+  if (!endpoint.request) {
+    return undefined;
+  }
+
+  // Single request schema: merge path params, query and an object body back together
+  const { body } = request;
+  if (body !== undefined && (typeof body !== 'object' || body === null || Array.isArray(body))) {
+    return validateRequest(endpoint.request, body);
+  }
+  return validateRequest(endpoint.request, {
+    ...(coerce(endpoint.request, { ...request.params, ...request.query }) as object),
+    ...(body as Record<string, unknown> | undefined),
+  });
+}
+
+// Resolve the response schema for a status: `responses[status]`, then `response` for 2xx
+export function getResponseSchema(
+  endpoint: EndpointDefinition,
+  status: number
+): z.ZodType | undefined {
+  const declared = endpoint.responses?.[status];
+  if (declared) {
+    return declared;
+  }
+  return status >= 200 && status < 300 ? endpoint.response : undefined;
+}
+
+// First declared 2xx schema with its status, else `response` with 200
+export function getSuccessResponse(endpoint: EndpointDefinition): {
+  status: number;
+  schema: z.ZodType | undefined;
+} {
+  const declared = Object.entries(endpoint.responses ?? {})
+    .map(([status, schema]) => ({ status: Number(status), schema }))
+    .find(({ status }) => status >= 200 && status < 300);
+  return declared ?? { status: 200, schema: endpoint.response };
+}
+
 // Safe parse (no error throwing)
 export function safeParseRequest<T>(
   schema: z.ZodType<T> | undefined, 
@@ -0,0 +1,315 @@
+import { describe, it, expect, vi } from 'vitest';
+import { build } from 'esbuild';
+import { z } from 'zod';
+import {
+  createClient,
+  FetchAdapter,
+  MockAdapter,
+  createMockClient,
+  mockResponse,
+  retryMiddleware,
+  ValidationError,
+  ConfigError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+} from '../src';
+import type { ClientConfig, HttpAdapter } from '../src';
+import type { AxiosInstance } from 'axios';
+
+function jsonResponse(data: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'application/json' },
+    ...init,
+  });
+}
+
+describe('Adapters', () => {
+  const UserSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+  });
+
+  const contract = {
+    getUser: {
+      path: '/users/:id',
+      method: 'get' as const,
+      request: z.object({ id: z.string() }),
+      response: UserSchema,
+    },
+    createUser: {
+      path: '/users',
+      method: 'post' as const,
+      request: z.object({ name: z.string() }),
+      response: UserSchema,
+    },
+  } as const;
+
+  describe('FetchAdapter', () => {
+    it('should send requests through fetch with baseURL and JSON body', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ id: '1', name: 'Jane' }));
+      const client = createClient(contract, {
+        adapter: new FetchAdapter({ baseURL: 'https://api.example.com/', fetch: fetchMock }),
+      });
+
+      const result = await client.createUser({ name: 'Jane' });
+
+      expect(result).toEqual({ id: '1', name: 'Jane' });
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://api.example.com/users',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ name: 'Jane' }),
+          headers: expect.objectContaining({ 'Content-Type': 'application/json' }),
+        })
+      );
+    });
+
+    it('should expose response headers', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(jsonResponse({ id: '1', name: 'Jane' }, { headers: { etag: 'abc' } }));
+      const adapter = new FetchAdapter({ fetch: fetchMock });
+
+      const response = await adapter.request({ url: '/users/1', method: 'get', headers: {} });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.etag).toBe('abc');
+    });
+
+    it('should map error statuses to HttpError with parsed body', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse({ error: 'missing' }, { status: 404, statusText: 'Not Found' })
+        );
+      const client = createClient(contract, { adapter: new FetchAdapter({ fetch: fetchMock }) });
+
+      const error = await client.getUser({ id: '1' }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect((error as HttpError).status).toBe(404);
+      expect((error as HttpError).response).toEqual({ error: 'missing' });
+    });
+
+    it('should map fetch failures to NetworkError', async () => {
+      const fetchMock = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+      const client = createClient(contract, { adapter: new FetchAdapter({ fetch: fetchMock }) });
+
+      await expect(client.getUser({ id: '1' })).rejects.toThrow(NetworkError);
+    });
+
+    it('should throw TimeoutError when the timeout elapses', async () => {
+      const fetchMock = vi.fn(
+        (_url: RequestInfo | URL, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          })
+      );
+      const client = createClient(contract, {
+        adapter: new FetchAdapter({ fetch: fetchMock, timeout: 10 }),
+      });
+
+      await expect(client.getUser({ id: '1' })).rejects.toThrow(TimeoutError);
+    });
+  });
+
+  describe('Custom adapters', () => {
+    it('should accept any HttpAdapter implementation', async () => {
+      const adapter: HttpAdapter = {
+        name: 'custom',
+        request: vi.fn().mockResolvedValue({
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+          data: { id: '1', name: 'Jane' },
+        }),
+      };
+      const client = createClient(contract, { adapter });
+
+      await expect(client.getUser({ id: '1' })).resolves.toEqual({ id: '1', name: 'Jane' });
+      expect(adapter.request).toHaveBeenCalledWith(
+        expect.objectContaining({ url: '/users/1', method: 'get' })
+      );
+    });
+
+    it('should send query changes made by middleware through every adapter', async () => {
+      const middleware: ClientConfig['middleware'] = [
+        (request, next) =>
+          next({ ...request, query: { ...request.query, page: 2, tag: ['a', 'b'] } }),
+      ];
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ id: '1', name: 'Jane' }));
+      const axiosMock = {
+        request: vi.fn().mockResolvedValue({
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+          data: { id: '1', name: 'Jane' },
+        }),
+        defaults: {},
+      } as unknown as AxiosInstance;
+
+      await createClient(contract, {
+        adapter: new FetchAdapter({ baseURL: 'https://api.example.com', fetch: fetchMock }),
+        middleware,
+      }).getUser({ id: '1' });
+      await createClient(contract, { axios: axiosMock, middleware }).getUser({ id: '1' });
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.example.com/users/1?page=2&tag=a&tag=b');
+      expect(axiosMock.request).toHaveBeenCalledWith(
+        expect.objectContaining({ url: '/users/1?page=2&tag=a&tag=b' })
+      );
+    });
+
+    it('should throw ConfigError without axios or adapter', () => {
+      expect(() => createClient(contract, {} as ClientConfig)).toThrow(ConfigError);
+    });
+  });
+
+  describe('MockAdapter', () => {
+    const nestedContract = {
+      users: {
+        getById: {
+          path: '/users/:id',
+          method: 'get' as const,
+          request: z.object({ id: z.string(), include: z.string().optional() }),
+          response: UserSchema,
+        },
+        me: {
+          path: '/users/me',
+          method: 'get' as const,
+          response: UserSchema,
+        },
+        create: {
+          path: '/users',
+          method: 'post' as const,
+          request: z.object({ name: z.string() }),
+          response: UserSchema,
+        },
+      },
+    } as const;
+
+    it('should route calls to handlers by nested contract key', async () => {
+      const { client, mock } = createMockClient(nestedContract, {
+        'users.getById': ({ id }) => ({ id, name: 'Jane' }),
+        'users.me': () => ({ id: 'me', name: 'Me' }),
+      });
+
+      await expect(client.users.getById({ id: '42', include: 'posts' })).resolves.toEqual({
+        id: '42',
+        name: 'Jane',
+      });
+      await expect(client.users.me()).resolves.toEqual({ id: 'me', name: 'Me' });
+
+      expect(mock.callsFor('users.getById')).toHaveLength(1);
+      expect(mock.callsFor('users.getById')[0].input).toEqual({ id: '42', include: 'posts' });
+      expect(mock.calls.map((call) => call.endpoint)).toEqual(['users.getById', 'users.me']);
+    });
+
+    it('should accept numeric path params', async () => {
+      const { client, mock } = createMockClient(
+        {
+          getPost: {
+            path: '/posts/:id',
+            method: 'get' as const,
+            request: z.object({ id: z.number(), page: z.number().optional() }),
+            response: z.object({ id: z.number() }),
+          },
+          getComment: {
+            path: '/posts/:postId/comments/:id',
+            method: 'get' as const,
+            params: z.object({ postId: z.number(), id: z.number() }),
+            response: z.object({ id: z.number() }),
+          },
+        },
+        {
+          getPost: ({ id }) => ({ id }),
+          getComment: ({ params }) => ({ id: params.postId * 100 + params.id }),
+        }
+      );
+
+      await expect(client.getPost({ id: 2, page: 3 })).resolves.toEqual({ id: 2 });
+      await expect(client.getComment({ params: { postId: 2, id: 5 } })).resolves.toEqual({
+        id: 205,
+      });
+      expect(mock.callsFor('getPost')[0].input).toEqual({ id: 2, page: 3 });
+    });
+
+    it('should still apply response validation', async () => {
+      const { client } = createMockClient(nestedContract, {
+        'users.create': () => ({ id: 1, name: 'Jane' }) as unknown as { id: string; name: string },
+      });
+
+      await expect(client.users.create({ name: 'Jane' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should run the middleware chain', async () => {
+      const mock = new MockAdapter(nestedContract);
+      let attempts = 0;
+      mock.on('users.me', () => {
+        attempts++;
+        return attempts === 1
+          ? mockResponse({ error: 'busy' }, { status: 503, statusText: 'Unavailable' })
+          : { id: 'me', name: 'Me' };
+      });
+      const client = createClient(nestedContract, {
+        adapter: mock,
+        middleware: [retryMiddleware({ retries: 1, delay: 1 })],
+      });
+
+      await expect(client.users.me()).resolves.toEqual({ id: 'me', name: 'Me' });
+      expect(mock.calls[0].error).toBeInstanceOf(HttpError);
+      expect(mock.calls).toHaveLength(2);
+    });
+
+    it('should return results with throwOnError: false', async () => {
+      const { client } = createMockClient(
+        nestedContract,
+        { 'users.me': () => ({ id: 'me', name: 'Me' }) },
+        { throwOnError: false }
+      );
+
+      const result = await client.users.me();
+      // @ts-expect-error results must be narrowed before reading data
+      expect(result.name).toBeUndefined();
+      expect(result).toEqual({ ok: true, data: { id: 'me', name: 'Me' } });
+      if (result.ok) {
+        expect(result.data.name).toBe('Me');
+      }
+    });
+
+    it('should fail loudly on unhandled endpoints', async () => {
+      const { client } = createMockClient(nestedContract, {});
+
+      await expect(client.users.me()).rejects.toThrow(ConfigError);
+      await expect(client.users.me()).rejects.toThrow('"users.me"');
+    });
+  });
+
+  describe('Bundling', () => {
+    it('should not bundle axios into fetch-only clients', async () => {
+      const result = await build({
+        stdin: {
+          contents: [
+            "import { createClient, FetchAdapter } from './src';",
+            'createClient({}, { adapter: new FetchAdapter() });',
+          ].join('\n'),
+          resolveDir: process.cwd(),
+          loader: 'ts',
+        },
+        bundle: true,
+        write: false,
+        metafile: true,
+        platform: 'browser',
+        format: 'esm',
+        logLevel: 'silent',
+      });
+
+      const inputs = Object.keys(result.metafile.inputs);
+      expect(inputs.some((input) => input.includes('src/client.ts'))).toBe(true);
+      expect(inputs.filter((input) => input.includes('node_modules/axios'))).toEqual([]);
+    });
+  });
+});
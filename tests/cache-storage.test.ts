@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, afterAll, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryCacheStorage, type CacheEntry } from '../src';
+import { FileCacheStorage } from '../src/node';
+
+function entry(ttl: number, data: unknown = { ok: true }): CacheEntry {
+  return {
+    data: { status: 200, statusText: 'OK', headers: {}, data },
+    timestamp: Date.now(),
+    ttl,
+  };
+}
+
+describe('MemoryCacheStorage', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should evict the least recently used entry beyond maxEntries', async () => {
+    const storage = new MemoryCacheStorage({ maxEntries: 2 });
+    await storage.set('a', entry(1000));
+    await storage.set('b', entry(1000));
+    await storage.get('a'); // `b` is now least recently used
+    await storage.set('c', entry(1000));
+
+    expect(await storage.get('b')).toBeNull();
+    expect(await storage.get('a')).not.toBeNull();
+    expect(await storage.get('c')).not.toBeNull();
+    expect(storage.size()).toBe(2);
+    expect(storage.stats()).toEqual({ hits: 3, misses: 1, evictions: 1 });
+  });
+
+  it('should bound the approximate size of entries', async () => {
+    const storage = new MemoryCacheStorage({ maxSize: 400 });
+    await storage.set('small', entry(1000, 'x'));
+    await storage.set('large', entry(1000, 'x'.repeat(200)));
+
+    expect(await storage.get('small')).toBeNull();
+    expect(await storage.get('large')).not.toBeNull();
+    expect(storage.stats().evictions).toBe(1);
+  });
+
+  it('should sweep expired entries periodically', async () => {
+    vi.useFakeTimers();
+    const storage = new MemoryCacheStorage({ sweepInterval: 1000 });
+    await storage.set('short', entry(500));
+    await storage.set('long', entry(5000));
+
+    vi.advanceTimersByTime(1000);
+    expect(storage.size()).toBe(1);
+    expect(storage.stats().evictions).toBe(1);
+
+    storage.dispose();
+    vi.advanceTimersByTime(10000);
+    expect(storage.size()).toBe(1);
+  });
+
+  it('should delete entries by tag', async () => {
+    const storage = new MemoryCacheStorage();
+    await storage.set('a', { ...entry(1000), tags: ['users', 'admins'] });
+    await storage.set('b', { ...entry(1000), tags: ['users'] });
+    await storage.set('c', entry(1000));
+
+    await storage.deleteByTag('users');
+    expect(storage.size()).toBe(1);
+    expect(await storage.get('c')).not.toBeNull();
+  });
+
+  it('should count expired reads as misses', async () => {
+    vi.useFakeTimers();
+    const storage = new MemoryCacheStorage();
+    await storage.set('key', entry(100));
+    vi.advanceTimersByTime(200);
+
+    expect(await storage.get('key')).toBeNull();
+    expect(storage.stats()).toEqual({ hits: 0, misses: 1, evictions: 1 });
+  });
+});
+
+describe('FileCacheStorage', () => {
+  const directories: string[] = [];
+  const createDirectory = async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'zodsei-cache-'));
+    directories.push(directory);
+    return directory;
+  };
+
+  afterAll(async () => {
+    await Promise.all(directories.map((directory) => rm(directory, { recursive: true })));
+  });
+
+  it('should persist entries across instances', async () => {
+    const directory = await createDirectory();
+    await new FileCacheStorage(directory).set('GET|/users/1', entry(60000, { id: 1 }));
+
+    const storage = new FileCacheStorage(directory);
+    const stored = await storage.get('GET|/users/1');
+    expect(stored?.data.data).toEqual({ id: 1 });
+    expect(await storage.get('GET|/users/2')).toBeNull();
+    expect(storage.stats()).toEqual({ hits: 1, misses: 1, evictions: 0 });
+  });
+
+  it('should handle concurrent writes to the same key', async () => {
+    const directory = await createDirectory();
+    const storage = new FileCacheStorage(directory);
+
+    await expect(
+      Promise.all([1, 2, 3].map((id) => storage.set('key', entry(60000, { id }))))
+    ).resolves.toHaveLength(3);
+
+    expect(await readdir(directory)).toHaveLength(1);
+    expect((await storage.get('key'))?.data.data).toEqual({ id: expect.any(Number) });
+  });
+
+  it('should drop expired and corrupt entries', async () => {
+    const directory = await createDirectory();
+    const storage = new FileCacheStorage(directory);
+    await storage.set('expired', { ...entry(1000), timestamp: Date.now() - 5000 });
+    await storage.set('fresh', entry(60000));
+    await writeFile(join(directory, 'corrupt.json'), '{not json', 'utf8');
+
+    expect(await storage.get('expired')).toBeNull();
+    await storage.cleanup();
+
+    expect(await readdir(directory)).toHaveLength(1);
+    expect(storage.stats().evictions).toBe(2);
+  });
+
+  it('should delete entries by tag across instances', async () => {
+    const directory = await createDirectory();
+    const writer = new FileCacheStorage(directory);
+    await writer.set('user', { ...entry(60000), tags: ['users'] });
+    await writer.set('post', { ...entry(60000), tags: ['posts'] });
+
+    const storage = new FileCacheStorage(directory);
+    await storage.deleteByTag('users');
+    expect(await storage.get('user')).toBeNull();
+    expect(await storage.get('post')).not.toBeNull();
+  });
+
+  it('should delete and clear entries', async () => {
+    const directory = await createDirectory();
+    const storage = new FileCacheStorage(join(directory, 'nested'));
+    await storage.clear(); // Missing directory is fine
+
+    await storage.set('a', entry(60000));
+    await storage.set('b', entry(60000));
+    await storage.delete('a');
+    expect(await storage.get('a')).toBeNull();
+
+    await storage.clear();
+    expect(await storage.get('b')).toBeNull();
+  });
+});
@@ -1,6 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { z } from 'zod';
-import { createClient, ValidationError, HttpError } from '../src';
+import {
+  createClient,
+  ValidationError,
+  HttpError,
+  AbortError,
+  FetchAdapter,
+  ZodseiError,
+  ConfigError,
+  defineContract,
+} from '../src';
+import type { RequestContext } from '../src';
 import type { AxiosInstance } from 'axios';
 
 // Mock axios instance helper
@@ -185,6 +195,38 @@ describe('ZodseiClient', () => {
       );
     });
 
+    it('should reject calls that leave a path placeholder unfilled', async () => {
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        validateRequest: false,
+      });
+
+      await expect(
+        client.getUser({} as unknown as typeof client.getUser.infer.request)
+      ).rejects.toThrow(ConfigError);
+      expect(axiosMock.request).not.toHaveBeenCalled();
+    });
+
+    it('should flag contracts whose request schema lacks a path param', () => {
+      const contract = defineContract({
+        // @ts-expect-error - request schema does not provide :id
+        getUser: {
+          path: '/users/:id',
+          method: 'get',
+          request: z.object({ name: z.string() }),
+        },
+        nested: {
+          getPost: {
+            path: '/users/:userId/posts/:postId',
+            method: 'get',
+            params: z.object({ userId: z.string(), postId: z.string() }),
+          },
+        },
+      });
+
+      expect(contract.nested.getPost.path).toBe('/users/:userId/posts/:postId');
+    });
+
     it('should separate path params from query params', async () => {
       // Create a contract that has both path and query params
       const mixedParamsContract = {
@@ -387,4 +429,412 @@ describe('ZodseiClient', () => {
 
     expect(result).toEqual(mockUser);
   });
+
+  describe('Request Options', () => {
+    const mockUser = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'John Doe',
+      email: 'john@example.com',
+    };
+
+    it('should pass per-call headers, timeout and signal to the adapter', async () => {
+      const controller = new AbortController();
+      let followsCaller = false;
+      axiosMock.request.mockImplementationOnce(async (config: { signal: AbortSignal }) => {
+        // The timeout gets its own signal, which still follows the caller's
+        controller.abort();
+        followsCaller = config.signal.aborted;
+        return { status: 200, statusText: 'OK', headers: {}, data: mockUser };
+      });
+
+      const client = createClient(apiContract, { axios: axiosMock });
+      await client.getUser(
+        { id: mockUser.id },
+        { headers: { Authorization: 'Bearer token' }, timeout: 500, signal: controller.signal }
+      );
+
+      expect(axiosMock.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer token' }),
+          timeout: 500,
+          signal: expect.any(AbortSignal),
+        })
+      );
+      expect(followsCaller).toBe(true);
+    });
+
+    it('should merge extra query parameters', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 201,
+        statusText: 'Created',
+        headers: {},
+        data: mockUser,
+      });
+
+      const client = createClient(apiContract, { axios: axiosMock });
+      await client.createUser(
+        { name: 'John Doe', email: 'john@example.com' },
+        { query: { notify: true } }
+      );
+
+      expect(axiosMock.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: '/users?notify=true',
+          data: { name: 'John Doe', email: 'john@example.com' },
+        })
+      );
+    });
+
+    it('should expose options to middleware', async () => {
+      const contexts: RequestContext[] = [];
+      const contract = {
+        health: { path: '/health', method: 'get' as const },
+      } as const;
+      axiosMock.request.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: 'ok',
+      });
+
+      const client = createClient(contract, {
+        axios: axiosMock,
+        middleware: [
+          async (request, next) => {
+            contexts.push(request);
+            return next(request);
+          },
+        ],
+      });
+      await client.health({ meta: { priority: 'high' }, headers: { 'X-Trace': '1' } });
+
+      expect(contexts[0].meta).toEqual({ priority: 'high' });
+      expect(contexts[0].headers).toEqual({ 'X-Trace': '1' });
+    });
+
+    it('should reject aborted calls with AbortError', async () => {
+      const controller = new AbortController();
+      const fetchMock = vi.fn(
+        (_url: RequestInfo | URL, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          })
+      );
+      const client = createClient(apiContract, {
+        adapter: new FetchAdapter({ fetch: fetchMock }),
+      });
+
+      const pending = client.getUser({ id: mockUser.id }, { signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(AbortError);
+    });
+  });
+
+  describe('Status-specific Responses', () => {
+    const NotFound = z.object({ code: z.literal('NOT_FOUND'), message: z.string() });
+    const Problem = z.object({ errors: z.array(z.string()) });
+
+    const statusContract = {
+      getUser: {
+        path: '/users/:id',
+        method: 'get' as const,
+        request: z.object({ id: z.string() }),
+        responses: { 200: UserSchema, 404: NotFound },
+      },
+      createUser: {
+        path: '/users',
+        method: 'post' as const,
+        request: z.object({ name: z.string() }),
+        responses: { 201: UserSchema, 422: Problem },
+      },
+    } as const;
+
+    const mockUser = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'John Doe',
+      email: 'john@example.com',
+    };
+
+    it('should validate and type the success body', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 201,
+        statusText: 'Created',
+        headers: {},
+        data: mockUser,
+      });
+
+      const client = createClient(statusContract, { axios: axiosMock });
+      const user: z.infer<typeof UserSchema> = await client.createUser({ name: 'John Doe' });
+
+      expect(user).toEqual(mockUser);
+    });
+
+    it('should surface declared error bodies as typed HttpError', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 404,
+        statusText: 'Not Found',
+        headers: {},
+        data: { code: 'NOT_FOUND', message: 'No such user', extra: true },
+      });
+
+      const client = createClient(statusContract, { axios: axiosMock });
+      const error = await client.getUser({ id: '1' }).catch((e: unknown) => e);
+
+      expect(client.getUser.isError(error)).toBe(true);
+      if (client.getUser.isError(error)) {
+        // Narrowed to HttpError<404, { code: 'NOT_FOUND'; message: string }>
+        const status: 404 = error.status;
+        expect(status).toBe(404);
+        expect(error.response).toEqual({ code: 'NOT_FOUND', message: 'No such user' });
+      }
+    });
+
+    it('should keep the HttpError when a declared error body does not match its schema', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 422,
+        statusText: 'Unprocessable Entity',
+        headers: {},
+        data: { errors: 'not-an-array' },
+      });
+
+      const client = createClient(statusContract, { axios: axiosMock });
+      const error = await client.createUser({ name: 'John Doe' }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect((error as HttpError).status).toBe(422);
+      expect((error as HttpError).response).toEqual({ errors: 'not-an-array' });
+      expect((error as HttpError).cause).toBeInstanceOf(ValidationError);
+      expect(client.createUser.isError(error)).toBe(false);
+    });
+
+    it('should leave undeclared errors untouched', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 500,
+        statusText: 'Internal Server Error',
+        headers: {},
+        data: 'boom',
+      });
+
+      const client = createClient(statusContract, { axios: axiosMock });
+      const error = await client.getUser({ id: '1' }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(client.getUser.isError(error)).toBe(false);
+      expect((error as HttpError).response).toBe('boom');
+    });
+  });
+
+  describe('Result Mode', () => {
+    const mockUser = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'John Doe',
+      email: 'john@example.com',
+    };
+
+    it('should resolve .safe() calls to ok results', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: mockUser,
+      });
+
+      const client = createClient(apiContract, { axios: axiosMock });
+      const result = await client.getUser.safe({ id: mockUser.id });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.data.email).toBe('john@example.com');
+      }
+    });
+
+    it('should resolve .safe() failures to error results', async () => {
+      const client = createClient(apiContract, { axios: axiosMock });
+      const result = await client.getUser.safe({ id: 'invalid-uuid' });
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(axiosMock.request).not.toHaveBeenCalled();
+    });
+
+    it('should wrap non-Zodsei errors from middleware', async () => {
+      const failure = new Error('middleware exploded');
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [
+          async () => {
+            throw failure;
+          },
+        ],
+      });
+      const result = await client.getUser.safe({ id: mockUser.id });
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toBeInstanceOf(ZodseiError);
+      expect(result.error?.code).toBe('UNKNOWN_ERROR');
+      expect(result.error?.cause).toBe(failure);
+    });
+
+    it('should return results from every method with throwOnError: false', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 500,
+        statusText: 'Internal Server Error',
+        headers: {},
+        data: null,
+      });
+
+      const client = createClient(apiContract, { axios: axiosMock, throwOnError: false });
+      const result = await client.getUser({ id: mockUser.id });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toBeInstanceOf(HttpError);
+      }
+    });
+  });
+
+  describe('Raw Responses', () => {
+    it('should return validated data with status, headers and request', async () => {
+      const mockUser = {
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+      };
+      axiosMock.request.mockResolvedValueOnce({
+        status: 201,
+        statusText: 'Created',
+        headers: { etag: '"v1"', link: '</users?page=2>; rel="next"' },
+        data: { ...mockUser, extra: 'stripped' },
+      });
+
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [
+          async (request, next) =>
+            next({ ...request, headers: { ...request.headers, 'X-Trace': '1' } }),
+        ],
+      });
+      const response = await client.createUser.raw({ name: 'Jane Doe', email: 'jane@example.com' });
+
+      expect(response.status).toBe(201);
+      expect(response.statusText).toBe('Created');
+      expect(response.headers.etag).toBe('"v1"');
+      expect(response.data).toEqual(mockUser);
+      expect(response.data.email).toBe('jane@example.com');
+      expect(response.request).toEqual(
+        expect.objectContaining({ url: '/users', method: 'post', headers: { 'X-Trace': '1' } })
+      );
+    });
+  });
+
+  describe('Structured Request Parts', () => {
+    const structuredContract = {
+      createPost: {
+        path: '/users/:userId/posts',
+        method: 'post' as const,
+        params: z.object({ userId: z.uuid() }),
+        query: z.object({ draft: z.boolean().optional() }),
+        headers: z.object({ 'x-request-id': z.string() }),
+        body: z.object({ title: z.string().min(1) }),
+        response: z.object({ id: z.string(), title: z.string() }),
+      },
+      listPosts: {
+        path: '/users/:userId/posts',
+        method: 'get' as const,
+        params: z.object({ userId: z.string() }),
+        query: z.object({ page: z.number() }),
+      },
+      searchPosts: {
+        path: '/posts',
+        method: 'get' as const,
+        query: z.object({ page: z.number().optional(), q: z.string().optional() }),
+      },
+    } as const;
+
+    const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('should route each part to its place in the request', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 201,
+        statusText: 'Created',
+        headers: {},
+        data: { id: 'post-1', title: 'Hello' },
+      });
+
+      const client = createClient(structuredContract, { axios: axiosMock });
+      const result = await client.createPost({
+        params: { userId },
+        query: { draft: true },
+        headers: { 'x-request-id': 'abc' },
+        body: { title: 'Hello' },
+      });
+
+      expect(result).toEqual({ id: 'post-1', title: 'Hello' });
+      expect(axiosMock.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: `/users/${userId}/posts?draft=true`,
+          method: 'post',
+          data: { title: 'Hello' },
+          headers: expect.objectContaining({ 'x-request-id': 'abc' }),
+        })
+      );
+    });
+
+    it('should build GET requests from params and query', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: [],
+      });
+
+      const client = createClient(structuredContract, { axios: axiosMock });
+      await client.listPosts({ params: { userId: 'u1' }, query: { page: 2 } });
+
+      const config = axiosMock.request.mock.calls[0][0];
+      expect(config.url).toBe('/users/u1/posts?page=2');
+      expect(config.data).toBeUndefined();
+    });
+
+    it('should let callers omit parts whose fields are all optional', async () => {
+      axiosMock.request.mockResolvedValue({ status: 200, statusText: 'OK', headers: {}, data: [] });
+      const client = createClient(structuredContract, { axios: axiosMock });
+
+      await client.searchPosts({});
+      await client.searchPosts();
+      await client.searchPosts({ query: { page: 2 } });
+
+      expect(axiosMock.request.mock.calls.map(([config]) => config.url)).toEqual([
+        '/posts',
+        '/posts',
+        '/posts?page=2',
+      ]);
+
+      // @ts-expect-error `params` is required
+      await expect(client.listPosts({ query: { page: 1 } })).rejects.toThrow(ValidationError);
+      // @ts-expect-error `query.page` is required, so `query` is too
+      await expect(client.listPosts({ params: { userId: 'u1' } })).rejects.toThrow(ValidationError);
+    });
+
+    it('should validate each part and prefix issue paths', async () => {
+      const client = createClient(structuredContract, { axios: axiosMock });
+
+      const error = await client
+        .createPost({
+          params: { userId: 'not-a-uuid' },
+          headers: { 'x-request-id': 'abc' },
+          body: { title: '' },
+          query: {},
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).issues.map((issue) => issue.path.join('.'))).toEqual([
+        'params.userId',
+        'body.title',
+      ]);
+      expect(axiosMock.request).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,132 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import ts from 'typescript';
+import {
+  generateContractSource,
+  createMockClient,
+  mockResponse,
+  ConfigError,
+  ValidationError,
+} from '../src';
+import type { Contract } from '../src';
+import { generateContractFile, readOpenAPIDocument } from '../src/node';
+
+const FIXTURE = resolve(__dirname, 'fixtures/petstore.yaml');
+const RECURSIVE_FIXTURE = resolve(__dirname, 'fixtures/tree.yaml');
+const SOURCE_ENTRY = resolve(__dirname, '../src/index.ts');
+
+describe('OpenAPI codegen', () => {
+  let outputDir: string | undefined;
+
+  afterAll(async () => {
+    if (outputDir) {
+      await rm(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should read YAML documents and reject non-OpenAPI files', async () => {
+    const document = await readOpenAPIDocument(FIXTURE);
+    expect(document.openapi).toBe('3.0.3');
+
+    await expect(readOpenAPIDocument(resolve(__dirname, '../package.json'))).rejects.toThrow(
+      ConfigError
+    );
+  });
+
+  it('should emit component schemas and a contract grouped by tag', async () => {
+    const source = generateContractSource(await readOpenAPIDocument(FIXTURE));
+
+    expect(source).toContain("import { z, defineContract } from 'zodsei';");
+    expect(source).toContain('export const NewPet = z.object({');
+    expect(source).toContain('tag: z.string().nullable().optional(),');
+    // Components are emitted before the schemas that reference them
+    expect(source.indexOf('export const NewPet')).toBeLessThan(source.indexOf('export const Pet'));
+    // Global names are not shadowed
+    expect(source).toContain('export const ErrorSchema = z.object({');
+    expect(source).toContain("path: '/pets/:petId',");
+    expect(source).toMatch(/pets: \{\n {4}listPets: \{/);
+    expect(source).toMatch(/health: \{\n {4}getHealth: \{/);
+    expect(source).toContain('201: Pet,');
+    expect(source).toContain('400: ErrorSchema,');
+  });
+
+  it('should group by path prefix and honour naming options', async () => {
+    const source = generateContractSource(await readOpenAPIDocument(FIXTURE), {
+      groupBy: 'path',
+      contractName: 'petstore',
+      importSource: './zodsei',
+    });
+
+    expect(source).toContain("import { z, defineContract } from './zodsei';");
+    expect(source).toContain('export const petstore = defineContract({');
+    expect(source).not.toContain('export const contract');
+  });
+
+  it('should emit recursive components as getters', async () => {
+    const source = generateContractSource(await readOpenAPIDocument(RECURSIVE_FIXTURE));
+
+    expect(source).toContain('  get children() {\n    return z.array(Node);\n  },');
+    expect(source).toContain('  get category() {\n    return Category.optional();\n  },');
+    expect(source).not.toContain('z.lazy');
+  });
+
+  it('should generate modules that type-check in strict mode', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'zodsei-codegen-'));
+    const files = [join(directory, 'petstore.ts'), join(directory, 'tree.ts')];
+    try {
+      // tsc resolves the entry without its extension
+      const importSource = SOURCE_ENTRY.replace(/\.ts$/, '');
+      await generateContractFile(FIXTURE, files[0], { importSource });
+      await generateContractFile(RECURSIVE_FIXTURE, files[1], { importSource });
+
+      const program = ts.createProgram(files, {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        target: ts.ScriptTarget.ES2020,
+        lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Node10,
+        types: ['node'],
+      });
+      const errors = ts
+        .getPreEmitDiagnostics(program)
+        .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+      expect(errors).toEqual([]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }, 60000);
+
+  it('should generate a module that createClient accepts unchanged', async () => {
+    outputDir = await mkdtemp(join(tmpdir(), 'zodsei-codegen-'));
+    const output = join(outputDir, 'contract.ts');
+    await generateContractFile(FIXTURE, output, { importSource: SOURCE_ENTRY });
+    expect(await readFile(output, 'utf8')).toContain('export const contract');
+
+    const { contract } = (await import(output)) as { contract: Contract };
+    const { client } = createMockClient(contract, {
+      'pets.getPet': (input: unknown) => ({
+        id: (input as { params: { petId: string } }).params.petId,
+        name: 'Rex',
+      }),
+      'pets.createPet': () => mockResponse({ message: 'name taken' }, { status: 400 }),
+    });
+    const petId = '7b0b2a2e-0c4f-4f8e-9d55-0f4a0c8e9b1a';
+
+    const pets = client as unknown as Record<string, Record<string, (data?: unknown) => unknown>>;
+    await expect(pets.pets.getPet({ params: { petId } })).resolves.toEqual({
+      id: petId,
+      name: 'Rex',
+    });
+    await expect(pets.pets.getPet({ params: { petId: 'nope' } })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(pets.pets.createPet({ body: { name: 'Rex' } })).rejects.toMatchObject({
+      status: 400,
+      response: { message: 'name taken' },
+    });
+  });
+});
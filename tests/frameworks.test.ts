@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import Fastify from 'fastify';
+import { z } from 'zod';
+import { createClient, defineContract, FetchAdapter } from '../src';
+import { toExpressRouter, reply } from '../src/express';
+import { toFastifyPlugin } from '../src/fastify';
+
+const UserSchema = z.object({ id: z.string(), name: z.string() });
+
+const contract = defineContract({
+  users: {
+    me: {
+      path: '/users/me',
+      method: 'get',
+      response: UserSchema,
+    },
+    getById: {
+      path: '/users/:id',
+      method: 'get',
+      params: z.object({ id: z.string().min(2) }),
+      response: UserSchema,
+    },
+    create: {
+      path: '/users',
+      method: 'post',
+      query: z.object({ dryRun: z.enum(['true', 'false']).optional() }),
+      body: z.object({ name: z.string() }),
+      response: UserSchema,
+    },
+  },
+});
+
+const handlers = {
+  'users.me': () => ({ id: 'me', name: 'Me' }),
+  'users.getById': ({ params }: { params: { id: string } }) => ({ id: params.id, name: 'Ada' }),
+  'users.create': ({ body }: { body: { name: string } }) =>
+    reply({ id: 'new', name: body.name }, { status: 201 }),
+};
+
+describe('Express router', () => {
+  let server: Server;
+  let baseURL: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use('/api', toExpressRouter(contract, handlers));
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should serve typed responses to a Zodsei client', async () => {
+    const client = createClient(contract, { adapter: new FetchAdapter({ baseURL }) });
+
+    await expect(client.users.me()).resolves.toEqual({ id: 'me', name: 'Me' });
+    await expect(client.users.getById({ params: { id: '42' } })).resolves.toEqual({
+      id: '42',
+      name: 'Ada',
+    });
+
+    const created = await client.users.create.raw({ query: {}, body: { name: 'Grace' } });
+    expect(created.status).toBe(201);
+    expect(created.data).toEqual({ id: 'new', name: 'Grace' });
+  });
+
+  it('should reject invalid params, query and bodies with 400', async () => {
+    const invalidParams = await fetch(`${baseURL}/users/1`);
+    expect(invalidParams.status).toBe(400);
+    expect((await invalidParams.json()).issues[0].path).toEqual(['params', 'id']);
+
+    const invalidQuery = await fetch(`${baseURL}/users?dryRun=maybe`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ name: 'Grace' }),
+    });
+    expect(invalidQuery.status).toBe(400);
+
+    const invalidJson = await fetch(`${baseURL}/users`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: '{',
+    });
+    expect(invalidJson.status).toBe(400);
+    expect(await invalidJson.json()).toEqual({ message: 'Invalid JSON body' });
+  });
+});
+
+describe('Fastify plugin', () => {
+  const app = Fastify();
+
+  beforeAll(async () => {
+    await app.register(toFastifyPlugin(contract, handlers), { prefix: '/api' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should route literal and parameterised paths', async () => {
+    const me = await app.inject({ method: 'GET', url: '/api/users/me' });
+    expect(me.json()).toEqual({ id: 'me', name: 'Me' });
+
+    const user = await app.inject({ method: 'GET', url: '/api/users/42' });
+    expect(user.statusCode).toBe(200);
+    expect(user.json()).toEqual({ id: '42', name: 'Ada' });
+  });
+
+  it('should validate bodies and apply reply status', async () => {
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/users?dryRun=true',
+      payload: { name: 'Grace' },
+    });
+    expect(created.statusCode).toBe(201);
+    expect(created.json()).toEqual({ id: 'new', name: 'Grace' });
+
+    const invalid = await app.inject({ method: 'POST', url: '/api/users', payload: { name: 1 } });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json().issues[0].path).toEqual(['body', 'name']);
+  });
+});
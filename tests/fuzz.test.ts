@@ -0,0 +1,131 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import { z } from 'zod';
+import {
+  defineContract,
+  fuzzContract,
+  FetchAdapter,
+  MockAdapter,
+  mockResponse,
+  HttpError,
+  ValidationError,
+} from '../src';
+import { createServer } from '../src/node';
+
+describe('fuzzContract', () => {
+  const User = z.object({ id: z.uuid(), name: z.string().min(1), age: z.int().min(0) });
+
+  const contract = defineContract({
+    users: {
+      getById: {
+        path: '/users/:id',
+        method: 'get',
+        request: z.object({ id: z.uuid() }),
+        response: User,
+      },
+      create: {
+        path: '/users',
+        method: 'post',
+        body: User.omit({ id: true }),
+        response: User,
+      },
+      search: {
+        path: '/users/search',
+        method: 'get',
+        query: z.object({ q: z.string().min(1), limit: z.coerce.number().int().max(20) }),
+        response: z.array(User),
+      },
+    },
+    health: {
+      path: '/health',
+      method: 'get',
+      response: z.object({ status: z.literal('ok') }),
+    },
+  });
+
+  const user = { id: '7b0b2a2e-0c4f-4f8e-9d55-0f4a0c8e9b1a', name: 'Ada', age: 36 };
+
+  it('should pass a service that honours the contract', async () => {
+    const adapter = new MockAdapter(contract, {
+      'users.getById': ({ id }) => ({ ...user, id }),
+      'users.create': ({ body }) => ({ ...body, id: user.id }),
+      'users.search': () => [user],
+      health: () => ({ status: 'ok' as const }),
+    });
+
+    const report = await fuzzContract(contract, { adapter, runs: 5, seed: 3 });
+
+    expect(report.ok).toBe(true);
+    expect(report.failures).toEqual([]);
+    expect(report.endpoints['users.getById']).toEqual({ requests: 10, rejected: 5, failures: 0 });
+    // No input, so no invalid variant
+    expect(report.endpoints.health).toEqual({ requests: 5, rejected: 0, failures: 0 });
+    expect(report.requests).toBe(35);
+  });
+
+  it('should report response drift and 5xx responses', async () => {
+    const adapter = new MockAdapter(contract, {
+      'users.getById': ({ id }) => ({ ...user, id }),
+      // Drift: age became a string on the service
+      'users.create': ({ body }) => ({ ...body, id: user.id, age: String(body.age) }) as never,
+      'users.search': () => mockResponse({ message: 'boom' }, { status: 500 }),
+      health: () => ({ status: 'ok' as const }),
+    });
+
+    const report = await fuzzContract(contract, { adapter, runs: 3 });
+
+    expect(report.ok).toBe(false);
+    expect(new Set(report.failures.map((failure) => failure.endpoint))).toEqual(
+      new Set(['users.create', 'users.search'])
+    );
+
+    const drift = report.failures.find((failure) => failure.endpoint === 'users.create');
+    expect(drift).toMatchObject({ kind: 'response-schema', valid: true });
+    expect(drift?.error).toBeInstanceOf(ValidationError);
+
+    const serverError = report.failures.find((failure) => failure.endpoint === 'users.search');
+    expect(serverError).toMatchObject({ kind: 'server-error', status: 500, valid: true });
+    expect(serverError?.error).toBeInstanceOf(HttpError);
+  });
+
+  it('should be reproducible and respect the endpoint filter', async () => {
+    const inputs = async () => {
+      const adapter = new MockAdapter(contract, { 'users.getById': ({ id }) => ({ ...user, id }) });
+      await fuzzContract(contract, { adapter, runs: 3, seed: 'ci', endpoints: ['users.getById'] });
+      return adapter.calls.map((call) => call.request.url);
+    };
+
+    const first = await inputs();
+    expect(first).toHaveLength(6);
+    expect(await inputs()).toEqual(first);
+  });
+
+  describe('against a live server', () => {
+    const server = createServer(contract, {
+      'users.getById': ({ id }) => ({ ...user, id }),
+      'users.create': ({ body }) => ({ ...body, id: user.id }),
+      'users.search': ({ query }) => {
+        if (query.limit > 10) throw new Error('unindexed search');
+        return [user];
+      },
+      health: () => ({ status: 'ok' as const }),
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('should send invalid payloads to the service and flag crashes', async () => {
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      const adapter = new FetchAdapter({ baseURL: `http://127.0.0.1:${port}` });
+
+      const report = await fuzzContract(contract, { adapter, runs: 10, seed: 1 });
+
+      expect(report.endpoints['users.create'].rejected).toBe(10);
+      expect(report.failures.length).toBeGreaterThan(0);
+      expect(report.failures.every((failure) => failure.endpoint === 'users.search')).toBe(true);
+      expect(report.failures[0]).toMatchObject({ kind: 'server-error', status: 500 });
+    });
+  });
+});
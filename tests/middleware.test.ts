@@ -1,7 +1,27 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { z } from 'zod';
 import { createClient } from '../src';
-import { retryMiddleware, cacheMiddleware } from '../src';
+import {
+  retryMiddleware,
+  cacheMiddleware,
+  MemoryCacheStorage,
+  httpCacheMiddleware,
+  timeoutMiddleware,
+  dedupeMiddleware,
+  circuitBreakerMiddleware,
+  rateLimitMiddleware,
+  authMiddleware,
+  loggingMiddleware,
+  defaultRetryCondition,
+  TimeoutError,
+  CircuitOpenError,
+  AuthError,
+  AbortError,
+  NetworkError,
+  ValidationError,
+  HttpError,
+} from '../src';
+import type { CacheEntry, CacheStorage, RequestContext } from '../src';
 import type { AxiosInstance } from 'axios';
 
 function createAxiosMock(baseURL = 'https://api.example.com') {
@@ -100,6 +120,155 @@ describe('Middleware', () => {
       // Should only be called once (no retry for 404)
       expect(axiosMock.request).toHaveBeenCalledTimes(1);
     });
+
+    describe('delays and methods', () => {
+      const mockUser = {
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        name: 'John Doe',
+        email: 'john@example.com'
+      };
+      const ok = { status: 200, statusText: 'OK', headers: {}, data: mockUser };
+      const unavailable = { status: 503, statusText: 'Service Unavailable', headers: {}, data: {} };
+
+      const writeContract = {
+        createUser: {
+          path: '/users',
+          method: 'post' as const,
+          request: z.object({ name: z.string() }),
+          response: z.object({ id: z.string() })
+        },
+        upsertUser: {
+          path: '/users',
+          method: 'post' as const,
+          request: z.object({ name: z.string() }),
+          response: z.object({ id: z.string() }),
+          idempotent: true
+        },
+        getUser: { ...apiContract.getUser, idempotent: false }
+      } as const;
+
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+      });
+
+      it('should wait for Retry-After on 429/503, capped by maxDelay', async () => {
+        axiosMock.request
+          .mockResolvedValueOnce({ ...unavailable, headers: { 'retry-after': '2' } })
+          .mockResolvedValueOnce({ ...unavailable, headers: { 'retry-after': '120' } })
+          .mockResolvedValue(ok);
+        const onRetry = vi.fn();
+        const client = createClient(apiContract, {
+          axios: axiosMock,
+          middleware: [retryMiddleware({ retries: 2, delay: 10, maxDelay: 5000, onRetry })]
+        });
+
+        const result = client.getUser({ id: mockUser.id });
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(axiosMock.request).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(axiosMock.request).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(5000);
+
+        await expect(result).resolves.toEqual(mockUser);
+        expect(onRetry.mock.calls.map(([, , delay]) => delay)).toEqual([2000, 5000]);
+      });
+
+      it('should stop waiting as soon as the caller aborts', async () => {
+        axiosMock.request.mockResolvedValue({ ...unavailable, headers: { 'retry-after': '20' } });
+        const client = createClient(apiContract, {
+          axios: axiosMock,
+          middleware: [retryMiddleware({ retries: 2, delay: 10 })]
+        });
+
+        const controller = new AbortController();
+        const result = client.getUser({ id: mockUser.id }, { signal: controller.signal });
+        const settled = vi.fn();
+        result.catch(settled);
+        await vi.advanceTimersByTimeAsync(1000);
+        controller.abort();
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(settled).toHaveBeenCalledWith(expect.any(AbortError));
+        await vi.runAllTimersAsync();
+        expect(axiosMock.request).toHaveBeenCalledTimes(1);
+      });
+
+      it('should apply jitter to backoff delays', async () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        const delays = async (jitter: 'full' | 'equal' | 'none') => {
+          axiosMock.request.mockReset();
+          axiosMock.request.mockResolvedValue(unavailable);
+          const onRetry = vi.fn();
+          const client = createClient(apiContract, {
+            axios: axiosMock,
+            middleware: [
+              retryMiddleware({ retries: 3, delay: 100, maxDelay: 300, jitter, onRetry })
+            ]
+          });
+          const result = client.getUser({ id: mockUser.id }).catch(() => undefined);
+          await vi.runAllTimersAsync();
+          await result;
+          return onRetry.mock.calls.map(([, , delay]) => delay);
+        };
+
+        expect(await delays('none')).toEqual([100, 200, 300]);
+        expect(await delays('full')).toEqual([50, 100, 150]);
+        expect(await delays('equal')).toEqual([75, 150, 225]);
+      });
+
+      it('should only retry unsafe methods on idempotent endpoints', async () => {
+        axiosMock.request.mockResolvedValueOnce(unavailable).mockResolvedValue({
+          ...ok,
+          data: { id: '1' }
+        });
+        const client = createClient(writeContract, {
+          axios: axiosMock,
+          middleware: [retryMiddleware({ retries: 1, delay: 10 })]
+        });
+
+        await expect(client.createUser({ name: 'John' })).rejects.toBeInstanceOf(HttpError);
+        expect(axiosMock.request).toHaveBeenCalledTimes(1);
+
+        axiosMock.request.mockResolvedValueOnce(unavailable);
+        const upsert = client.upsertUser({ name: 'John' });
+        await vi.runAllTimersAsync();
+        await expect(upsert).resolves.toEqual({ id: '1' });
+        expect(axiosMock.request).toHaveBeenCalledTimes(3);
+      });
+
+      it('should let endpoints opt out and honour retryMethods', async () => {
+        axiosMock.request.mockResolvedValue(unavailable);
+        const optedOut = createClient(writeContract, {
+          axios: axiosMock,
+          middleware: [retryMiddleware({ retries: 1, delay: 10 })]
+        });
+        await expect(optedOut.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+        expect(axiosMock.request).toHaveBeenCalledTimes(1);
+
+        const postRetries = createClient(writeContract, {
+          axios: axiosMock,
+          middleware: [retryMiddleware({ retries: 1, delay: 10, retryMethods: ['post'] })]
+        });
+        const created = postRetries.createUser({ name: 'John' }).catch((e: unknown) => e);
+        await vi.runAllTimersAsync();
+        expect(await created).toBeInstanceOf(HttpError);
+        expect(axiosMock.request).toHaveBeenCalledTimes(3);
+      });
+
+      it('should not retry validation, abort or open-circuit errors', () => {
+        expect(defaultRetryCondition(new NetworkError('offline', new Error('offline')))).toBe(true);
+        expect(defaultRetryCondition(new TimeoutError(100))).toBe(true);
+        expect(defaultRetryCondition(new Error('socket hang up'))).toBe(true);
+        expect(defaultRetryCondition(new ValidationError('invalid', []))).toBe(false);
+        expect(defaultRetryCondition(new AbortError())).toBe(false);
+        expect(defaultRetryCondition(new CircuitOpenError('getUser', 100))).toBe(false);
+      });
+    });
   });
 
   describe('Cache Middleware', () => {
@@ -141,6 +310,306 @@ describe('Middleware', () => {
       // Should only make one HTTP request due to caching
       expect(axiosMock.request).toHaveBeenCalledTimes(1);
     });
+
+    describe('stale entries and tags', () => {
+      const mockUser = {
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        name: 'John Doe',
+        email: 'john@example.com'
+      };
+      const response = (name: string) => ({
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: { ...mockUser, name }
+      });
+
+      const usersContract = {
+        getUser: { ...apiContract.getUser, cache: { tags: ['users'] } },
+        renameUser: {
+          path: '/users/:id',
+          method: 'patch' as const,
+          request: z.object({ id: z.uuid(), name: z.string() }),
+          response: z.object({ id: z.uuid(), name: z.string(), email: z.email() }),
+          invalidates: ['users']
+        }
+      } as const;
+
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should serve stale data while revalidating in the background', async () => {
+        axiosMock.request
+          .mockResolvedValueOnce(response('Old'))
+          .mockResolvedValueOnce(response('New'));
+        const client = createClient(apiContract, {
+          axios: axiosMock,
+          middleware: [cacheMiddleware({ ttl: 1000, staleWhileRevalidate: 5000 })]
+        });
+
+        await client.getUser({ id: mockUser.id });
+        await vi.advanceTimersByTimeAsync(1500);
+
+        await expect(client.getUser({ id: mockUser.id })).resolves.toMatchObject({ name: 'Old' });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(axiosMock.request).toHaveBeenCalledTimes(2);
+
+        await expect(client.getUser({ id: mockUser.id })).resolves.toMatchObject({ name: 'New' });
+        expect(axiosMock.request).toHaveBeenCalledTimes(2);
+      });
+
+      it('should serve stale data when the request fails within staleIfError', async () => {
+        axiosMock.request.mockResolvedValueOnce(response('Old')).mockResolvedValue({
+          status: 500,
+          statusText: 'Internal Server Error',
+          headers: {},
+          data: {}
+        });
+        const client = createClient(apiContract, {
+          axios: axiosMock,
+          middleware: [cacheMiddleware({ ttl: 1000, staleIfError: 5000 })]
+        });
+
+        await client.getUser({ id: mockUser.id });
+        await vi.advanceTimersByTimeAsync(1500);
+        await expect(client.getUser({ id: mockUser.id })).resolves.toMatchObject({ name: 'Old' });
+
+        await vi.advanceTimersByTimeAsync(5000);
+        await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      });
+
+      it('should not serve stale data for client errors or aborted calls', async () => {
+        axiosMock.request
+          .mockResolvedValueOnce(response('Old'))
+          .mockResolvedValueOnce({ status: 404, statusText: 'Not Found', headers: {}, data: {} })
+          .mockRejectedValueOnce(
+            Object.assign(new Error('canceled'), { isAxiosError: true, code: 'ERR_CANCELED' })
+          );
+        const client = createClient(apiContract, {
+          axios: axiosMock,
+          middleware: [cacheMiddleware({ ttl: 1000, staleIfError: 5000 })]
+        });
+
+        await client.getUser({ id: mockUser.id });
+        await vi.advanceTimersByTimeAsync(1500);
+        await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+
+        const controller = new AbortController();
+        controller.abort();
+        await expect(
+          client.getUser({ id: mockUser.id }, { signal: controller.signal })
+        ).rejects.toBeInstanceOf(AbortError);
+      });
+
+      it('should evict tagged entries after a successful mutation', async () => {
+        axiosMock.request
+          .mockResolvedValueOnce(response('Old'))
+          .mockResolvedValueOnce({ status: 500, statusText: 'Error', headers: {}, data: {} })
+          .mockResolvedValueOnce(response('New'))
+          .mockResolvedValueOnce(response('New'));
+        const client = createClient(usersContract, {
+          axios: axiosMock,
+          middleware: [cacheMiddleware({ ttl: 60000 })]
+        });
+
+        await client.getUser({ id: mockUser.id });
+
+        // Failed mutations leave the cache alone
+        await expect(client.renameUser({ id: mockUser.id, name: 'New' })).rejects.toThrow();
+        await expect(client.getUser({ id: mockUser.id })).resolves.toMatchObject({ name: 'Old' });
+
+        await client.renameUser({ id: mockUser.id, name: 'New' });
+        await expect(client.getUser({ id: mockUser.id })).resolves.toMatchObject({ name: 'New' });
+        expect(axiosMock.request).toHaveBeenCalledTimes(4);
+      });
+
+      it('should invalidate tags stored by another middleware instance', async () => {
+        axiosMock.request.mockResolvedValue(response('Old'));
+        const storage = new MemoryCacheStorage();
+        const before = createClient(usersContract, {
+          axios: axiosMock,
+          middleware: [cacheMiddleware({ ttl: 60000, storage })]
+        });
+        await before.getUser({ id: mockUser.id });
+        expect(storage.size()).toBe(1);
+
+        // E.g. after a restart with a persistent storage
+        const after = createClient(usersContract, {
+          axios: axiosMock,
+          middleware: [cacheMiddleware({ ttl: 60000, storage })]
+        });
+        await after.renameUser({ id: mockUser.id, name: 'New' });
+        expect(storage.size()).toBe(0);
+      });
+
+      it('should forget expired tagged keys', async () => {
+        axiosMock.request.mockResolvedValue(response('Old'));
+        const entries = new Map<string, CacheEntry>();
+        const storage: CacheStorage = {
+          get: async (key) => entries.get(key) ?? null,
+          set: async (key, entry) => void entries.set(key, entry),
+          delete: vi.fn(async (key: string) => void entries.delete(key)),
+          clear: async () => entries.clear()
+        };
+        const client = createClient(usersContract, {
+          axios: axiosMock,
+          middleware: [cacheMiddleware({ ttl: 1000, storage })]
+        });
+
+        await client.getUser({ id: mockUser.id });
+        await vi.advanceTimersByTimeAsync(2000);
+        await client.getUser({ id: '123e4567-e89b-12d3-a456-426614174001' });
+        await client.renameUser({ id: mockUser.id, name: 'New' });
+
+        // Only the live entry is left to invalidate
+        expect(storage.delete).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('HTTP Cache Middleware', () => {
+    const mockUser = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'John Doe',
+      email: 'john@example.com'
+    };
+    const ok = (headers: Record<string, string>, name = mockUser.name) => ({
+      status: 200,
+      statusText: 'OK',
+      headers,
+      data: { ...mockUser, name }
+    });
+    const sentHeaders = (call: number) =>
+      (axiosMock.request.mock.calls[call][0] as { headers: Record<string, string> }).headers;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep responses fresh for max-age', async () => {
+      axiosMock.request
+        .mockResolvedValueOnce(ok({ 'cache-control': 'max-age=60' }))
+        .mockResolvedValueOnce(ok({ 'cache-control': 'max-age=60' }, 'Jane'));
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [httpCacheMiddleware()]
+      });
+
+      await client.getUser({ id: mockUser.id });
+      await vi.advanceTimersByTimeAsync(59000);
+      await expect(client.getUser({ id: mockUser.id })).resolves.toMatchObject({ name: 'John Doe' });
+      expect(axiosMock.request).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await expect(client.getUser({ id: mockUser.id })).resolves.toMatchObject({ name: 'Jane' });
+      expect(sentHeaders(1)).not.toHaveProperty('If-None-Match');
+    });
+
+    it('should ignore max-age directives without a number', async () => {
+      axiosMock.request.mockResolvedValue(ok({ 'cache-control': 'max-age' }));
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [httpCacheMiddleware()]
+      });
+
+      await client.getUser({ id: mockUser.id });
+      await vi.advanceTimersByTimeAsync(500);
+      await client.getUser({ id: mockUser.id });
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should revalidate with If-None-Match and turn a 304 into the cached response', async () => {
+      axiosMock.request
+        .mockResolvedValueOnce(ok({ 'cache-control': 'no-cache', etag: '"v1"' }))
+        .mockResolvedValueOnce({ status: 304, statusText: 'Not Modified', headers: {}, data: '' });
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [httpCacheMiddleware()]
+      });
+
+      await client.getUser({ id: mockUser.id });
+      const response = await client.getUser.raw({ id: mockUser.id });
+
+      expect(response.status).toBe(200);
+      expect(response.data).toEqual(mockUser);
+      expect(sentHeaders(1)).toMatchObject({ 'If-None-Match': '"v1"' });
+    });
+
+    it('should handle 304s reported as HttpError and send If-Modified-Since', async () => {
+      const lastModified = 'Wed, 21 Oct 2025 07:28:00 GMT';
+      axiosMock.request
+        .mockResolvedValueOnce(ok({ 'cache-control': 'max-age=0', 'last-modified': lastModified }))
+        .mockRejectedValueOnce(
+          Object.assign(new Error('Not Modified'), {
+            isAxiosError: true,
+            response: {
+              status: 304,
+              statusText: 'Not Modified',
+              headers: { 'cache-control': 'max-age=60' },
+              data: ''
+            }
+          })
+        );
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [httpCacheMiddleware()]
+      });
+
+      await client.getUser({ id: mockUser.id });
+      await expect(client.getUser({ id: mockUser.id })).resolves.toEqual(mockUser);
+      expect(sentHeaders(1)).toMatchObject({ 'If-Modified-Since': lastModified });
+
+      // The 304 refreshed the entry's freshness
+      await expect(client.getUser({ id: mockUser.id })).resolves.toEqual(mockUser);
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not store no-store responses, nor private ones in a shared cache', async () => {
+      axiosMock.request.mockResolvedValue(ok({ 'cache-control': 'no-store, max-age=60' }));
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [httpCacheMiddleware()]
+      });
+      await client.getUser({ id: mockUser.id });
+      await client.getUser({ id: mockUser.id });
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+
+      axiosMock.request.mockReset();
+      axiosMock.request.mockResolvedValue(ok({ 'cache-control': 'private, max-age=60' }));
+      const shared = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [httpCacheMiddleware({ shared: true })]
+      });
+      await shared.getUser({ id: mockUser.id });
+      await shared.getUser({ id: mockUser.id });
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should respect Vary', async () => {
+      axiosMock.request.mockResolvedValue(
+        ok({ 'cache-control': 'max-age=60', vary: 'Accept-Language' })
+      );
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [httpCacheMiddleware()]
+      });
+
+      await client.getUser({ id: mockUser.id }, { headers: { 'Accept-Language': 'en' } });
+      await client.getUser({ id: mockUser.id }, { headers: { 'Accept-Language': 'en' } });
+      expect(axiosMock.request).toHaveBeenCalledTimes(1);
+
+      await client.getUser({ id: mockUser.id }, { headers: { 'Accept-Language': 'fr' } });
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('Multiple Middleware', () => {
@@ -174,4 +643,866 @@ describe('Middleware', () => {
       expect(axiosMock.request).toHaveBeenCalledTimes(1);
 });
   });
+
+  describe('Timeout Middleware', () => {
+    const mockUser = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'John Doe',
+      email: 'john@example.com'
+    };
+
+    const nestedContract = {
+      users: {
+        search: {
+          path: '/users/search',
+          method: 'get' as const,
+          request: z.object({ q: z.string() }),
+          response: z.array(z.string())
+        }
+      }
+    } as const;
+
+    // A request that only settles when its signal is aborted
+    function hangUntilAborted() {
+      const signals: AbortSignal[] = [];
+      axiosMock.request.mockImplementation(
+        (config: { signal: AbortSignal }) =>
+          new Promise((_, reject) => {
+            signals.push(config.signal);
+            config.signal.addEventListener('abort', () => reject(config.signal.reason));
+          })
+      );
+      return signals;
+    }
+
+    it('should abort the request and throw TimeoutError after the default timeout', async () => {
+      const signals = hangUntilAborted();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [timeoutMiddleware({ default: 20 })]
+      });
+
+      const error = await client.getUser({ id: mockUser.id }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).timeout).toBe(20);
+      expect(signals[0].aborted).toBe(true);
+    });
+
+    it('should use per-endpoint timeouts by dotted key', async () => {
+      hangUntilAborted();
+      const seen: RequestContext[] = [];
+      const client = createClient(nestedContract, {
+        axios: axiosMock,
+        middleware: [
+          async (request, next) => {
+            seen.push(request);
+            return next(request);
+          },
+          timeoutMiddleware({ default: 1000, perEndpoint: { 'users.search': 15 } })
+        ]
+      });
+
+      await expect(client.users.search({ q: 'john' })).rejects.toMatchObject({ timeout: 15 });
+      expect(seen[0].endpoint).toBe('users.search');
+    });
+
+    it('should let the per-call timeout win', async () => {
+      hangUntilAborted();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [timeoutMiddleware({ default: 1000, perEndpoint: { getUser: 1000 } })]
+      });
+
+      await expect(
+        client.getUser({ id: mockUser.id }, { timeout: 10 })
+      ).rejects.toMatchObject({ name: 'TimeoutError', timeout: 10 });
+    });
+
+    it('should not interfere with requests that finish in time', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: mockUser
+      });
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [timeoutMiddleware({ default: 1000 })]
+      });
+
+      await expect(client.getUser({ id: mockUser.id })).resolves.toEqual(mockUser);
+    });
+
+    it('should enforce endpoint timeouts without middleware', async () => {
+      // The adapter ignores the signal and never settles
+      axiosMock.request.mockImplementation(() => new Promise(() => {}));
+      const client = createClient(
+        {
+          getUser: { ...apiContract.getUser, timeout: 15 }
+        },
+        { axios: axiosMock }
+      );
+
+      await expect(client.getUser({ id: mockUser.id })).rejects.toMatchObject({
+        name: 'TimeoutError',
+        timeout: 15
+      });
+      expect(axiosMock.request).toHaveBeenCalledWith(expect.objectContaining({ timeout: 15 }));
+    });
+  });
+
+  describe('Dedupe Middleware', () => {
+    const mockUser = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'John Doe',
+      email: 'john@example.com'
+    };
+    const otherId = '123e4567-e89b-12d3-a456-426614174001';
+
+    // Let pending calls reach the adapter
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    // Hold the adapter response until `release` is called
+    function deferResponses() {
+      const pending: Array<(response: unknown) => void> = [];
+      axiosMock.request.mockImplementation(
+        () => new Promise((resolve) => pending.push(resolve))
+      );
+      return {
+        count: () => pending.length,
+        release: (response: unknown) => pending.splice(0).forEach((resolve) => resolve(response))
+      };
+    }
+
+    it('should share one in-flight request among identical calls', async () => {
+      const adapter = deferResponses();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [dedupeMiddleware()]
+      });
+
+      const calls = [
+        client.getUser({ id: mockUser.id }),
+        client.getUser({ id: mockUser.id }),
+        client.getUser({ id: otherId })
+      ];
+      await flush();
+      expect(adapter.count()).toBe(2);
+
+      adapter.release({ status: 200, statusText: 'OK', headers: {}, data: mockUser });
+      const [first, second] = await Promise.allSettled(calls);
+      expect(first).toEqual({ status: 'fulfilled', value: mockUser });
+      expect(second).toEqual({ status: 'fulfilled', value: mockUser });
+
+      // Settled requests are not reused
+      axiosMock.request.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: mockUser
+      });
+      await client.getUser({ id: mockUser.id });
+      expect(axiosMock.request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject every waiting caller when the shared request fails', async () => {
+      const adapter = deferResponses();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [dedupeMiddleware()]
+      });
+
+      const calls = [client.getUser({ id: mockUser.id }), client.getUser({ id: mockUser.id })];
+      await flush();
+      adapter.release({ status: 503, statusText: 'Service Unavailable', headers: {}, data: {} });
+
+      const results = await Promise.allSettled(calls);
+      expect(axiosMock.request).toHaveBeenCalledTimes(1);
+      for (const result of results) {
+        expect(result.status).toBe('rejected');
+        expect((result as PromiseRejectedResult).reason).toBeInstanceOf(HttpError);
+      }
+    });
+
+    it('should only abort the shared request once every caller has aborted', async () => {
+      const adapter = deferResponses();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [dedupeMiddleware()]
+      });
+
+      const first = new AbortController();
+      const second = new AbortController();
+      const calls = [
+        client.getUser({ id: mockUser.id }, { signal: first.signal }),
+        client.getUser({ id: mockUser.id }, { signal: second.signal })
+      ];
+      await flush();
+      expect(adapter.count()).toBe(1);
+      const sharedSignal: AbortSignal = axiosMock.request.mock.calls[0][0].signal;
+
+      first.abort();
+      await expect(calls[0]).rejects.toBeInstanceOf(AbortError);
+      expect(sharedSignal.aborted).toBe(false);
+
+      adapter.release({ status: 200, statusText: 'OK', headers: {}, data: mockUser });
+      await expect(calls[1]).resolves.toEqual(mockUser);
+
+      // Once every caller has aborted, the request is aborted and no longer shared
+      const third = new AbortController();
+      const fourth = new AbortController();
+      const abandoned = [
+        client.getUser({ id: otherId }, { signal: third.signal }),
+        client.getUser({ id: otherId }, { signal: fourth.signal })
+      ];
+      await flush();
+      third.abort();
+      fourth.abort();
+      for (const call of abandoned) {
+        await expect(call).rejects.toBeInstanceOf(AbortError);
+      }
+      expect(axiosMock.request.mock.calls[1][0].signal.aborted).toBe(true);
+
+      const retried = client.getUser({ id: otherId });
+      await flush();
+      expect(adapter.count()).toBe(2);
+      adapter.release({ status: 200, statusText: 'OK', headers: {}, data: mockUser });
+      await expect(retried).resolves.toEqual(mockUser);
+    });
+
+    it('should let calls opt out with meta.dedupe = false', async () => {
+      const adapter = deferResponses();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [dedupeMiddleware()]
+      });
+
+      const calls = [
+        client.getUser({ id: mockUser.id }),
+        client.getUser({ id: mockUser.id }, { meta: { dedupe: false } })
+      ];
+      await flush();
+      expect(adapter.count()).toBe(2);
+
+      adapter.release({ status: 200, statusText: 'OK', headers: {}, data: mockUser });
+      await Promise.all(calls);
+    });
+
+    it('should use a custom key generator', async () => {
+      const adapter = deferResponses();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [dedupeMiddleware({ keyGenerator: (request) => request.method })]
+      });
+
+      const calls = [client.getUser({ id: mockUser.id }), client.getUser({ id: otherId })];
+      await flush();
+      expect(adapter.count()).toBe(1);
+
+      adapter.release({ status: 200, statusText: 'OK', headers: {}, data: mockUser });
+      await Promise.all(calls);
+    });
+  });
+
+  describe('Circuit Breaker Middleware', () => {
+    const mockUser = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'John Doe',
+      email: 'john@example.com'
+    };
+    const ok = { status: 200, statusText: 'OK', headers: {}, data: mockUser };
+    const unavailable = { status: 503, statusText: 'Service Unavailable', headers: {}, data: {} };
+
+    const twoEndpoints = {
+      getUser: apiContract.getUser,
+      getPost: {
+        path: '/posts/:id',
+        method: 'get' as const,
+        request: z.object({ id: z.string() }),
+        response: z.object({ id: z.string() })
+      }
+    } as const;
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should open after consecutive failures and fail fast', async () => {
+      axiosMock.request.mockResolvedValue(unavailable);
+      const onStateChange = vi.fn();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [
+          circuitBreakerMiddleware({ failureThreshold: 2, resetTimeout: 1000, onStateChange })
+        ]
+      });
+
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      expect(onStateChange).toHaveBeenCalledWith('getUser', 'open', 'closed');
+
+      const error = await client.getUser({ id: mockUser.id }).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(error).toMatchObject({ code: 'CIRCUIT_OPEN', key: 'getUser', retryAfter: 1000 });
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should close after a successful trial request', async () => {
+      axiosMock.request.mockResolvedValueOnce(unavailable).mockResolvedValue(ok);
+      const onStateChange = vi.fn();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [
+          circuitBreakerMiddleware({ failureThreshold: 1, resetTimeout: 1000, onStateChange })
+        ]
+      });
+
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      vi.setSystemTime(Date.now() + 1000);
+
+      await expect(client.getUser({ id: mockUser.id })).resolves.toEqual(mockUser);
+      expect(onStateChange.mock.calls.map(([, state]) => state)).toEqual([
+        'open',
+        'half-open',
+        'closed'
+      ]);
+    });
+
+    it('should reopen when the trial request fails', async () => {
+      axiosMock.request.mockResolvedValue(unavailable);
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [circuitBreakerMiddleware({ failureThreshold: 1, resetTimeout: 1000 })]
+      });
+
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      vi.setSystemTime(Date.now() + 1000);
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should count aborted calls neither as success nor as failure', async () => {
+      const canceled = Object.assign(new Error('canceled'), {
+        isAxiosError: true,
+        code: 'ERR_CANCELED'
+      });
+      axiosMock.request
+        .mockResolvedValueOnce(unavailable)
+        .mockRejectedValueOnce(canceled)
+        .mockResolvedValueOnce(unavailable)
+        .mockResolvedValueOnce(unavailable)
+        .mockRejectedValueOnce(canceled)
+        .mockResolvedValue(ok);
+      const onStateChange = vi.fn();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [
+          circuitBreakerMiddleware({ failureThreshold: 2, resetTimeout: 1000, onStateChange })
+        ]
+      });
+
+      // An abort between failures does not reset the count
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(AbortError);
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      expect(onStateChange).toHaveBeenLastCalledWith('getUser', 'open', 'closed');
+
+      // An aborted trial does not close the circuit and frees the slot for the next trial
+      vi.setSystemTime(Date.now() + 1000);
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      vi.setSystemTime(Date.now() + 1000);
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(AbortError);
+      await expect(client.getUser({ id: mockUser.id })).resolves.toEqual(mockUser);
+      expect(onStateChange.mock.calls.map(([, state]) => state)).toEqual([
+        'open',
+        'half-open',
+        'open',
+        'half-open',
+        'closed'
+      ]);
+    });
+
+    it('should track endpoints separately and ignore client errors', async () => {
+      axiosMock.request.mockImplementation(async (config: { url: string }) =>
+        config.url.startsWith('/users')
+          ? unavailable
+          : { status: 404, statusText: 'Not Found', headers: {}, data: {} }
+      );
+      const client = createClient(twoEndpoints, {
+        axios: axiosMock,
+        middleware: [circuitBreakerMiddleware({ failureThreshold: 1 })]
+      });
+
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(CircuitOpenError);
+
+      await expect(client.getPost({ id: '1' })).rejects.toBeInstanceOf(HttpError);
+      await expect(client.getPost({ id: '1' })).rejects.toBeInstanceOf(HttpError);
+    });
+
+    it('should share one circuit per origin', async () => {
+      axiosMock.request.mockResolvedValue(unavailable);
+      const otherAxios = createAxiosMock('https://other.example.com/v2');
+      otherAxios.request.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: mockUser
+      });
+      const breaker = circuitBreakerMiddleware({ failureThreshold: 1, scope: 'origin' });
+      const client = createClient(twoEndpoints, { axios: axiosMock, middleware: [breaker] });
+      const otherClient = createClient(twoEndpoints, { axios: otherAxios, middleware: [breaker] });
+
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(HttpError);
+      await expect(client.getPost({ id: '1' })).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(otherClient.getUser({ id: mockUser.id })).resolves.toEqual(mockUser);
+    });
+
+    it('should stop retries once the circuit opens', async () => {
+      axiosMock.request.mockResolvedValue(unavailable);
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [
+          retryMiddleware({ retries: 5, delay: 0 }),
+          circuitBreakerMiddleware({ failureThreshold: 2 })
+        ]
+      });
+
+      await expect(client.getUser({ id: mockUser.id })).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Rate Limit Middleware', () => {
+    const mockUser = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'John Doe',
+      email: 'john@example.com'
+    };
+    const ok = { status: 200, statusText: 'OK', headers: {}, data: mockUser };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    // Hold adapter responses; `release()` answers the oldest pending request
+    function deferResponses() {
+      const pending: Array<{ url: string; resolve: (response: unknown) => void }> = [];
+      const started: string[] = [];
+      axiosMock.request.mockImplementation(
+        (config: { url: string }) =>
+          new Promise((resolve) => {
+            started.push(config.url);
+            pending.push({ url: config.url, resolve });
+          })
+      );
+      return {
+        started,
+        release: (response: unknown = ok) => pending.shift()?.resolve(response)
+      };
+    }
+
+    it('should cap concurrent requests', async () => {
+      const adapter = deferResponses();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [rateLimitMiddleware({ maxConcurrent: 2 })]
+      });
+
+      const calls = [1, 2, 3].map(() => client.getUser({ id: mockUser.id }));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(adapter.started).toHaveLength(2);
+
+      adapter.release();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(adapter.started).toHaveLength(3);
+
+      adapter.release();
+      adapter.release();
+      await Promise.all(calls);
+    });
+
+    it('should spread requests over the interval', async () => {
+      axiosMock.request.mockResolvedValue(ok);
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [rateLimitMiddleware({ requestsPerInterval: 2, interval: 1000 })]
+      });
+
+      const calls = [1, 2, 3].map(() => client.getUser({ id: mockUser.id }));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(axiosMock.request).toHaveBeenCalledTimes(3);
+      await Promise.all(calls);
+    });
+
+    it('should start queued requests by meta.priority', async () => {
+      const adapter = deferResponses();
+      const client = createClient(
+        {
+          getUser: apiContract.getUser,
+          getPost: {
+            path: '/posts/:id',
+            method: 'get' as const,
+            request: z.object({ id: z.string() }),
+            response: z.object({ id: z.string() })
+          }
+        },
+        {
+          axios: axiosMock,
+          validateResponse: false,
+          middleware: [rateLimitMiddleware({ maxConcurrent: 1 })]
+        }
+      );
+
+      const calls = [
+        client.getUser({ id: mockUser.id }),
+        client.getPost({ id: 'low' }, { meta: { priority: 'low' } }),
+        client.getPost({ id: 'normal' }),
+        client.getPost({ id: 'high' }, { meta: { priority: 'high' } })
+      ];
+      for (let i = 0; i < calls.length; i++) {
+        await vi.advanceTimersByTimeAsync(0);
+        adapter.release();
+      }
+      await Promise.all(calls);
+
+      expect(adapter.started).toEqual([
+        `/users/${mockUser.id}`,
+        '/posts/high',
+        '/posts/normal',
+        '/posts/low'
+      ]);
+    });
+
+    it('should pause after a 429 for the Retry-After delay', async () => {
+      axiosMock.request
+        .mockResolvedValueOnce({
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { 'retry-after': '2' },
+          data: {}
+        })
+        .mockResolvedValue(ok);
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [rateLimitMiddleware({ requestsPerInterval: 10 })]
+      });
+
+      const error = await client.getUser({ id: mockUser.id }).catch((e: unknown) => e);
+      expect(error).toMatchObject({ status: 429, headers: { 'retry-after': '2' } });
+
+      const next = client.getUser({ id: mockUser.id });
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(axiosMock.request).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(next).resolves.toEqual(mockUser);
+    });
+
+    it('should pause when X-RateLimit-Remaining reaches 0', async () => {
+      axiosMock.request
+        .mockResolvedValueOnce({
+          ...ok,
+          headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '5' }
+        })
+        .mockResolvedValue(ok);
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [rateLimitMiddleware({ maxConcurrent: 4 })]
+      });
+
+      await client.getUser({ id: mockUser.id });
+      const next = client.getUser({ id: mockUser.id });
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(axiosMock.request).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(next).resolves.toEqual(mockUser);
+    });
+
+    it('should drop aborted requests from the queue', async () => {
+      const adapter = deferResponses();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [rateLimitMiddleware({ maxConcurrent: 1 })]
+      });
+      const controller = new AbortController();
+
+      const first = client.getUser({ id: mockUser.id });
+      const queued = client.getUser({ id: mockUser.id }, { signal: controller.signal });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(AbortError);
+      adapter.release();
+      await first;
+      expect(adapter.started).toHaveLength(1);
+    });
+  });
+
+  describe('Auth Middleware', () => {
+    const mockUser = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'John Doe',
+      email: 'john@example.com'
+    };
+
+    // Accept only `valid` tokens; record the Authorization header of every request
+    function authServer(valid: string) {
+      const sent: Array<string | undefined> = [];
+      axiosMock.request.mockImplementation(async (config: { headers: Record<string, string> }) => {
+        sent.push(config.headers.Authorization);
+        return config.headers.Authorization === `Bearer ${valid}`
+          ? { status: 200, statusText: 'OK', headers: {}, data: mockUser }
+          : { status: 401, statusText: 'Unauthorized', headers: {}, data: {} };
+      });
+      return sent;
+    }
+
+    it('should send the bearer token', async () => {
+      const sent = authServer('abc');
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [authMiddleware({ getToken: () => 'abc', refreshToken: vi.fn() })]
+      });
+
+      await expect(client.getUser({ id: mockUser.id })).resolves.toEqual(mockUser);
+      expect(sent).toEqual(['Bearer abc']);
+    });
+
+    it('should refresh once for concurrent 401s and replay every request', async () => {
+      const sent = authServer('new');
+      let token = 'old';
+      const refreshToken = vi.fn(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        token = 'new';
+        return token;
+      });
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [authMiddleware({ getToken: () => token, refreshToken })]
+      });
+
+      const first = [1, 2, 3].map(() => client.getUser({ id: mockUser.id }));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      // Made while the refresh is running: waits for the new token
+      const late = client.getUser({ id: mockUser.id });
+
+      await expect(Promise.all([...first, late])).resolves.toHaveLength(4);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(sent.filter((header) => header === 'Bearer old')).toHaveLength(3);
+      expect(sent.filter((header) => header === 'Bearer new')).toHaveLength(4);
+    });
+
+    it('should reject waiting requests with AuthError when the refresh fails', async () => {
+      authServer('new');
+      const failure = new Error('refresh token expired');
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [
+          authMiddleware({ getToken: () => 'old', refreshToken: () => Promise.reject(failure) })
+        ]
+      });
+
+      const results = await Promise.allSettled([
+        client.getUser({ id: mockUser.id }),
+        client.getUser({ id: mockUser.id })
+      ]);
+      for (const result of results) {
+        const reason = (result as PromiseRejectedResult).reason;
+        expect(reason).toBeInstanceOf(AuthError);
+        expect(reason).toMatchObject({ code: 'AUTH_ERROR', cause: failure });
+      }
+    });
+
+    it('should replay only once', async () => {
+      authServer('never');
+      const refreshToken = vi.fn(async () => 'still-wrong');
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [authMiddleware({ getToken: () => 'old', refreshToken })]
+      });
+
+      await expect(client.getUser({ id: mockUser.id })).rejects.toMatchObject({ status: 401 });
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(axiosMock.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use a custom header, scheme and refresh condition', async () => {
+      const sent: string[] = [];
+      axiosMock.request.mockImplementation(async (config: { headers: Record<string, string> }) => {
+        sent.push(config.headers['X-Api-Key']);
+        return config.headers['X-Api-Key'] === 'fresh'
+          ? { status: 200, statusText: 'OK', headers: {}, data: mockUser }
+          : { status: 403, statusText: 'Forbidden', headers: {}, data: {} };
+      });
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [
+          authMiddleware({
+            getToken: () => 'stale',
+            refreshToken: async () => 'fresh',
+            shouldRefresh: (error) => error instanceof HttpError && error.status === 403,
+            header: 'X-Api-Key',
+            scheme: ''
+          })
+        ]
+      });
+
+      await expect(client.getUser({ id: mockUser.id })).resolves.toEqual(mockUser);
+      expect(sent).toEqual(['stale', 'fresh']);
+    });
+  });
+
+  describe('Logging Middleware', () => {
+    const createLogger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+    const accountContract = {
+      accounts: {
+        login: {
+          path: '/login',
+          method: 'post' as const,
+          request: z.object({
+            email: z.string(),
+            password: z.string(),
+            devices: z.array(z.object({ name: z.string(), secret: z.string() }))
+          }),
+          response: z.object({ token: z.string() })
+        }
+      }
+    } as const;
+    const credentials = {
+      email: 'john@example.com',
+      password: 'hunter2',
+      devices: [{ name: 'laptop', secret: 's1' }]
+    };
+
+    it('should log one redacted record per request and response', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        headers: { 'set-cookie': 'session=1' },
+        data: { token: 't0k3n' }
+      });
+      const logger = createLogger();
+      const client = createClient(accountContract, {
+        axios: axiosMock,
+        middleware: [
+          loggingMiddleware({
+            logger,
+            bodies: true,
+            redact: { paths: ['password', 'devices[*].secret', 'token'] }
+          })
+        ]
+      });
+
+      await client.accounts.login(credentials, {
+        headers: { Authorization: 'Bearer abc', Cookie: 'a=b' }
+      });
+
+      expect(logger.info).toHaveBeenCalledTimes(2);
+      const [request] = logger.info.mock.calls[0];
+      const [response] = logger.info.mock.calls[1];
+      expect(request).toMatchObject({
+        type: 'request',
+        message: 'POST /login',
+        method: 'POST',
+        url: '/login',
+        endpoint: 'accounts.login',
+        headers: { Authorization: '[REDACTED]', Cookie: '[REDACTED]' },
+        body: {
+          email: 'john@example.com',
+          password: '[REDACTED]',
+          devices: [{ name: 'laptop', secret: '[REDACTED]' }]
+        },
+        size: JSON.stringify(credentials).length
+      });
+      expect(response).toMatchObject({
+        type: 'response',
+        endpoint: 'accounts.login',
+        status: 200,
+        duration: expect.any(Number),
+        headers: { 'set-cookie': '[REDACTED]' },
+        body: { token: '[REDACTED]' },
+        size: JSON.stringify({ token: 't0k3n' }).length
+      });
+
+      // The request itself is not redacted
+      expect(axiosMock.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: credentials,
+          headers: expect.objectContaining({ Authorization: 'Bearer abc' })
+        })
+      );
+    });
+
+    it('should log failures with the error class name', async () => {
+      axiosMock.request
+        .mockResolvedValueOnce({ status: 404, statusText: 'Not Found', headers: {}, data: {} })
+        .mockRejectedValueOnce(new Error('socket hang up'));
+      const logger = createLogger();
+      const client = createClient(apiContract, {
+        axios: axiosMock,
+        middleware: [loggingMiddleware({ logger, level: 'debug', bodies: false })]
+      });
+      const id = '123e4567-e89b-12d3-a456-426614174000';
+
+      await expect(client.getUser({ id })).rejects.toBeInstanceOf(HttpError);
+      await expect(client.getUser({ id })).rejects.toBeInstanceOf(NetworkError);
+
+      expect(logger.debug).toHaveBeenCalledTimes(2);
+      expect(logger.warn.mock.calls[0][0]).toMatchObject({
+        type: 'response',
+        status: 404,
+        error: 'HttpError',
+        endpoint: 'getUser'
+      });
+      expect(logger.warn.mock.calls[0][0]).not.toHaveProperty('body');
+      expect(logger.error.mock.calls[0][0]).toMatchObject({
+        type: 'response',
+        error: 'NetworkError',
+        errorMessage: expect.stringContaining('socket hang up')
+      });
+    });
+
+    it('should leave bodies out and redact query parameters by default', async () => {
+      axiosMock.request.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: { token: 't0k3n' }
+      });
+      const logger = createLogger();
+      const client = createClient(accountContract, {
+        axios: axiosMock,
+        middleware: [
+          async (request, next) => next({ ...request, url: `${request.url}?Token=abc&page=2#top` }),
+          loggingMiddleware({ logger })
+        ]
+      });
+
+      await client.accounts.login(credentials);
+
+      const [request] = logger.info.mock.calls[0];
+      const [response] = logger.info.mock.calls[1];
+      expect(request.url).toBe('/login?Token=[REDACTED]&page=2#top');
+      expect(request.message).toBe('POST /login?Token=[REDACTED]&page=2#top');
+      expect(request).not.toHaveProperty('body');
+      expect(response).not.toHaveProperty('body');
+      expect(JSON.stringify(logger.info.mock.calls)).not.toContain('hunter2');
+    });
+  });
 });
@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createClient, defineContract, FetchAdapter } from '../src';
+import { startMockServer, reply, type MockServer } from '../src/node';
+
+describe('Mock server', () => {
+  const UserSchema = z.object({
+    id: z.uuid(),
+    email: z.email(),
+    createdAt: z.iso.datetime(),
+    role: z.enum(['admin', 'member']),
+    nickname: z.string().min(3).max(12).optional(),
+  });
+
+  const contract = defineContract({
+    users: {
+      getById: {
+        path: '/users/:id',
+        method: 'get',
+        request: z.object({ id: z.string() }),
+        response: UserSchema,
+      },
+      list: {
+        path: '/users',
+        method: 'get',
+        response: z.array(UserSchema).min(1).max(5),
+      },
+      create: {
+        path: '/users',
+        method: 'post',
+        body: z.object({ email: z.email() }),
+        responses: { 201: UserSchema, 409: z.object({ message: z.string() }) },
+      },
+    },
+    health: {
+      path: '/health',
+      method: 'get',
+    },
+  });
+
+  let mock: MockServer | undefined;
+
+  afterEach(async () => {
+    await mock?.close();
+    mock = undefined;
+  });
+
+  it('should answer every endpoint with data matching its response schema', async () => {
+    mock = await startMockServer(contract, { port: 0, basePath: '/api' });
+    const client = createClient(contract, { adapter: new FetchAdapter({ baseURL: mock.url }) });
+
+    expect(UserSchema.parse(await client.users.getById({ id: '1' }))).toBeDefined();
+    expect((await client.users.list()).length).toBeGreaterThan(0);
+
+    const created = await client.users.create.raw({ body: { email: 'a@example.com' } });
+    expect(created.status).toBe(201);
+
+    const health = await fetch(`${mock.url}/health`);
+    expect(health.status).toBe(200);
+  });
+
+  it('should reproduce responses for the same seed and request', async () => {
+    mock = await startMockServer(contract, { port: 0, seed: 42 });
+    const first = await (await fetch(`${mock.url}/users/1`)).json();
+    const again = await (await fetch(`${mock.url}/users/1`)).json();
+    const other = await (await fetch(`${mock.url}/users/2`)).json();
+    await mock.close();
+
+    mock = await startMockServer(contract, { port: 0, seed: 42 });
+    const restarted = await (await fetch(`${mock.url}/users/1`)).json();
+
+    expect(again).toEqual(first);
+    expect(restarted).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+
+  it('should apply per-endpoint overrides', async () => {
+    const fixed = {
+      id: '7b0b2a2e-0c4f-4f8e-9d55-0f4a0c8e9b1a',
+      email: 'fixed@example.com',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      role: 'admin' as const,
+    };
+    mock = await startMockServer(contract, {
+      port: 0,
+      overrides: {
+        'users.getById': fixed,
+        'users.create': () => reply({ message: 'Email taken' }, { status: 409 }),
+      },
+    });
+
+    expect(await (await fetch(`${mock.url}/users/9`)).json()).toEqual(fixed);
+
+    const conflict = await fetch(`${mock.url}/users`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email: 'a@example.com' }),
+    });
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toEqual({ message: 'Email taken' });
+  });
+
+  it('should still validate requests', async () => {
+    mock = await startMockServer(contract, { port: 0 });
+    const response = await fetch(`${mock.url}/users`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email: 'not-an-email' }),
+    });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineContract, toOpenAPI, toOpenAPIPath } from '../src';
+
+describe('OpenAPI', () => {
+  const Address = z.object({ city: z.string() }).meta({ id: 'Address' });
+
+  const UserSchema = z.object({
+    id: z.uuid(),
+    name: z.string(),
+    address: Address.optional(),
+  });
+
+  const NotFound = z.object({ message: z.string() });
+
+  const contract = defineContract({
+    health: {
+      path: '/health',
+      method: 'get',
+    },
+    users: {
+      getById: {
+        path: '/users/:id',
+        method: 'get',
+        request: z.object({ id: z.uuid(), expand: z.string().optional() }),
+        responses: { 200: UserSchema, 404: NotFound },
+      },
+      create: {
+        path: '/users',
+        method: 'post',
+        request: z.object({ name: z.string(), address: Address }),
+        response: UserSchema,
+      },
+    },
+    admin: {
+      posts: {
+        update: {
+          path: '/users/:userId/posts/:postId',
+          method: 'patch',
+          params: z.object({ userId: z.string(), postId: z.coerce.number() }),
+          query: z.object({ notify: z.boolean().optional() }),
+          headers: z.object({ 'x-request-id': z.string() }),
+          body: z.object({ title: z.string() }),
+        },
+      },
+    },
+  });
+
+  const document = toOpenAPI(contract, {
+    info: { title: 'Test API', version: '1.0.0' },
+    servers: [{ url: 'https://api.example.com' }],
+  });
+
+  it('should convert :param paths to {param}', () => {
+    expect(toOpenAPIPath('/users/:userId/posts/:postId')).toBe('/users/{userId}/posts/{postId}');
+    expect(Object.keys(document.paths)).toEqual([
+      '/health',
+      '/users/{id}',
+      '/users',
+      '/users/{userId}/posts/{postId}',
+    ]);
+  });
+
+  it('should emit document metadata and tags from nested keys', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual({ title: 'Test API', version: '1.0.0' });
+    expect(document.servers).toEqual([{ url: 'https://api.example.com' }]);
+    expect(document.tags).toEqual([{ name: 'users' }, { name: 'admin.posts' }]);
+    expect(document.paths['/health'].get?.tags).toBeUndefined();
+    expect(document.paths['/users/{id}'].get?.operationId).toBe('users.getById');
+  });
+
+  it('should split legacy GET requests into path and query parameters', () => {
+    expect(document.paths['/users/{id}'].get?.parameters).toEqual([
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        schema: expect.objectContaining({ format: 'uuid' }),
+      },
+      { name: 'expand', in: 'query', required: false, schema: { type: 'string' } },
+    ]);
+  });
+
+  it('should map structured request parts', () => {
+    const operation = document.paths['/users/{userId}/posts/{postId}'].patch;
+
+    expect(operation?.parameters?.map((p) => `${p.in}:${p.name}:${p.required}`)).toEqual([
+      'path:userId:true',
+      'path:postId:true',
+      'query:notify:false',
+      'header:x-request-id:true',
+    ]);
+    expect(operation?.requestBody?.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/AdminPostsUpdateBody',
+    });
+  });
+
+  it('should deduplicate component schemas with $ref', () => {
+    const getById = document.paths['/users/{id}'].get;
+    const create = document.paths['/users'].post;
+
+    expect(getById?.responses['200'].content?.['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/UsersGetByIdResponse',
+    });
+    expect(getById?.responses['404'].content?.['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/UsersGetById404Response',
+    });
+    // Same UserSchema instance -> same component
+    expect(create?.responses['200'].content?.['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/UsersGetByIdResponse',
+    });
+
+    const schemas = document.components?.schemas ?? {};
+    expect(Object.keys(schemas).sort()).toEqual([
+      'Address',
+      'AdminPostsUpdateBody',
+      'UsersCreateRequest',
+      'UsersGetById404Response',
+      'UsersGetByIdResponse',
+    ]);
+    expect(schemas.UsersCreateRequest).toEqual(
+      expect.objectContaining({
+        properties: expect.objectContaining({
+          address: { $ref: '#/components/schemas/Address' },
+        }),
+      })
+    );
+    expect(schemas.Address).not.toHaveProperty('id');
+  });
+
+  it('should emit one component for a schema used nested and directly', () => {
+    const User = z.object({ id: z.string(), name: z.string() }).meta({ id: 'User' });
+    const Tag = z
+      .object({ name: z.string(), color: z.string().default('grey') })
+      .meta({ id: 'Tag' });
+
+    const document = toOpenAPI(
+      defineContract({
+        list: { path: '/users', method: 'get', response: z.array(User) },
+        getById: {
+          path: '/users/:id',
+          method: 'get',
+          params: z.object({ id: z.string() }),
+          response: User,
+        },
+        tag: { path: '/tags', method: 'post', body: Tag, response: Tag },
+      }),
+      { info: { title: 'Test API', version: '1.0.0' } }
+    );
+
+    const schemas = document.components?.schemas ?? {};
+    expect(Object.keys(schemas).sort()).toEqual(['ListResponse', 'Tag', 'Tag2', 'User']);
+    expect(document.paths['/users/{id}'].get?.responses['200'].content).toEqual({
+      'application/json': { schema: { $ref: '#/components/schemas/User' } },
+    });
+    expect(schemas.ListResponse.items).toEqual({ $ref: '#/components/schemas/User' });
+
+    // Every $ref resolves to a component
+    const refs = JSON.stringify(document).match(/"\$ref":"[^"]+"/g) ?? [];
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      const name = ref.slice('"$ref":"#/components/schemas/'.length, -1);
+      expect(schemas).toHaveProperty(name);
+    }
+
+    // Input and output shapes differ -> one component per direction
+    const tag = document.paths['/tags'].post;
+    expect(tag?.requestBody?.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/Tag',
+    });
+    expect(tag?.responses['200'].content?.['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/Tag2',
+    });
+    expect(schemas.Tag.required).toEqual(['name']);
+    expect(schemas.Tag2.required).toEqual(['name', 'color']);
+  });
+
+  it('should describe endpoints without schemas', () => {
+    expect(document.paths['/health'].get?.responses).toEqual({ '200': { description: 'OK' } });
+  });
+});
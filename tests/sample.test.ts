@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { createClient, defineContract, generateSample, ConfigError } from '../src';
+import { MockAdapter } from '../src/adapters/mock';
+
+const SEEDS = Array.from({ length: 50 }, (_, i) => i);
+
+function expectRoundTrip(schema: z.ZodType) {
+  for (const seed of SEEDS) {
+    const value = generateSample(schema, { seed });
+    const result = schema.safeParse(value);
+    expect(result.success, `seed ${seed}`).toBe(true);
+  }
+}
+
+describe('generateSample', () => {
+  it('should be deterministic per seed', () => {
+    const schema = z.object({ id: z.uuid(), name: z.string(), score: z.number() });
+
+    expect(generateSample(schema, { seed: 7 })).toEqual(generateSample(schema, { seed: 7 }));
+    expect(generateSample(schema, { seed: 'fixture' })).toEqual(
+      generateSample(schema, { seed: 'fixture' })
+    );
+    expect(generateSample(schema, { seed: 7 })).not.toEqual(generateSample(schema, { seed: 8 }));
+  });
+
+  it('should honour string formats', () => {
+    expectRoundTrip(
+      z.object({
+        uuid: z.uuid(),
+        email: z.email(),
+        url: z.url(),
+        datetime: z.iso.datetime(),
+        date: z.iso.date(),
+        time: z.iso.time(),
+        ipv4: z.ipv4(),
+        ipv6: z.ipv6(),
+        e164: z.e164(),
+        nanoid: z.nanoid(),
+        cuid: z.cuid(),
+        cuid2: z.cuid2(),
+        ulid: z.ulid(),
+        base64: z.base64(),
+        emoji: z.emoji(),
+      })
+    );
+  });
+
+  it('should honour length, range and pattern constraints', () => {
+    expectRoundTrip(
+      z.object({
+        short: z.string().min(3).max(5),
+        exact: z.string().length(8),
+        affixed: z.string().startsWith('usr_').endsWith('!').includes('-').max(12),
+        upper: z.string().uppercase(),
+        pattern: z.string().regex(/^[A-Z]{3}-\d{4}(-[a-f0-9]{2})?$/),
+        positive: z.int().positive(),
+        intCheck: z.number().int().max(20),
+        range: z.number().gt(1).lte(2),
+        negative: z.number().max(-5),
+        step: z.number().min(0).max(1).multipleOf(0.25),
+        big: z.bigint().min(10n).max(20n),
+        items: z.array(z.string()).min(2).max(4),
+      })
+    );
+  });
+
+  it('should cover composite schemas', () => {
+    const Shape = z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('circle'), radius: z.number().positive() }),
+      z.object({ kind: z.literal('square'), side: z.number().positive() }),
+    ]);
+
+    expectRoundTrip(
+      z.object({
+        shape: Shape,
+        union: z.union([z.string(), z.int()]),
+        role: z.enum(['admin', 'member']),
+        literal: z.literal('fixed'),
+        optional: z.string().optional(),
+        nullable: z.number().nullable(),
+        withDefault: z.boolean().default(false),
+        tuple: z.tuple([z.string(), z.int()]),
+        record: z.record(z.string(), z.number()),
+        exhaustive: z.record(z.enum(['a', 'b']), z.boolean()),
+        merged: z.intersection(z.object({ a: z.string() }), z.object({ b: z.number() })),
+        date: z.date(),
+        transformed: z.string().transform((value) => value.length),
+      })
+    );
+  });
+
+  it('should terminate on recursive schemas', () => {
+    const Category = z.object({
+      name: z.string(),
+      get children() {
+        return z.array(Category);
+      },
+    });
+
+    expectRoundTrip(Category);
+  });
+
+  it('should retry refinements and throw when they cannot be met', () => {
+    expectRoundTrip(
+      z
+        .int()
+        .min(1)
+        .max(10)
+        .refine((value) => value % 2 === 0)
+    );
+    expect(() => generateSample(z.string().refine(() => false, 'never valid'))).toThrow(
+      ConfigError
+    );
+  });
+});
+
+describe('$schema.sample', () => {
+  const User = z.object({ id: z.uuid(), name: z.string().min(1) });
+
+  const contract = defineContract({
+    users: {
+      getById: {
+        path: '/users/:id',
+        method: 'get',
+        request: z.object({ id: z.uuid() }),
+        responses: { 200: User, 404: z.object({ message: z.string() }) },
+      },
+      update: {
+        path: '/users/:id',
+        method: 'patch',
+        params: z.object({ id: z.uuid() }),
+        body: User.omit({ id: true }).partial(),
+        response: User,
+      },
+    },
+  });
+
+  const client = createClient(contract, { adapter: new MockAdapter(contract) });
+
+  it('should sample requests and success responses by dotted key', () => {
+    const request = client.$schema.sample('users.getById', 'request', { seed: 1 });
+    const response = client.$schema.sample('users.getById', 'response', { seed: 1 });
+
+    expect(z.uuid().safeParse(request.id).success).toBe(true);
+    expect(User.parse(response)).toEqual(response);
+    expect(client.$schema.sample('users.getById', 'response', { seed: 1 })).toEqual(response);
+  });
+
+  it('should sample structured request parts', () => {
+    const request = client.$schema.sample('users.update', 'request');
+
+    expect(Object.keys(request)).toEqual(['params', 'body']);
+    expect(z.uuid().safeParse(request.params.id).success).toBe(true);
+  });
+
+  it('should feed samples straight into a mock client', async () => {
+    const mock = new MockAdapter(contract, {
+      'users.getById': () => client.$schema.sample('users.getById', 'response'),
+    });
+    const mocked = createClient(contract, { adapter: mock });
+
+    const user = await mocked.users.getById(client.$schema.sample('users.getById', 'request'));
+    expect(User.safeParse(user).success).toBe(true);
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { z } from 'zod';
+import { createClient, defineContract, FetchAdapter, HttpError } from '../src';
+import { createServer, reply } from '../src/node';
+
+describe('Server', () => {
+  const UserSchema = z.object({ id: z.string(), name: z.string() });
+  const NotFound = z.object({ message: z.string() });
+
+  const contract = defineContract({
+    users: {
+      getById: {
+        path: '/users/:id',
+        method: 'get',
+        request: z.object({ id: z.string() }),
+        responses: { 200: UserSchema, 404: NotFound },
+      },
+      me: {
+        path: '/users/me',
+        method: 'get',
+        response: UserSchema,
+      },
+      list: {
+        path: '/users',
+        method: 'get',
+        query: z.object({ limit: z.coerce.number().int().max(50).optional() }),
+        response: z.array(UserSchema),
+      },
+      create: {
+        path: '/users',
+        method: 'post',
+        headers: z.object({ 'x-tenant': z.string() }),
+        body: z.object({ name: z.string().min(1) }),
+        response: UserSchema,
+      },
+      remove: {
+        path: '/users/:id',
+        method: 'delete',
+        request: z.object({ id: z.string() }),
+      },
+    },
+    orders: {
+      getById: {
+        path: '/orders/:id',
+        method: 'get',
+        request: z.object({ id: z.number(), expand: z.boolean().optional() }),
+        response: z.object({ id: z.number(), expand: z.boolean() }),
+      },
+      list: {
+        path: '/orders',
+        method: 'get',
+        query: z.object({
+          page: z.number().optional(),
+          status: z.array(z.enum(['open', 'closed'])).optional(),
+        }),
+        response: z.object({ page: z.number(), status: z.array(z.string()) }),
+      },
+    },
+    broken: {
+      path: '/broken',
+      method: 'get',
+      response: UserSchema,
+    },
+  });
+
+  const onError = vi.fn();
+  let server: Server;
+  let baseURL: string;
+
+  beforeAll(async () => {
+    server = createServer(
+      contract,
+      {
+        'users.getById': ({ id }) =>
+          id === 'missing'
+            ? reply({ message: 'No such user' }, { status: 404 })
+            : { id, name: 'Ada' },
+        'users.me': () => ({ id: 'me', name: 'Me' }),
+        'users.list': ({ query }) =>
+          Array.from({ length: query.limit ?? 2 }, (_, i) => ({
+            id: String(i),
+            name: `User ${i}`,
+          })),
+        'users.create': ({ headers, body }) =>
+          reply(
+            { id: headers['x-tenant'], name: body.name },
+            { status: 201, headers: { location: '/users/1' } }
+          ),
+        'orders.getById': ({ id, expand }) => ({ id, expand: expand ?? false }),
+        'orders.list': ({ query }) => ({ page: query.page ?? 1, status: query.status ?? [] }),
+        broken: () => ({ id: 1 }) as never,
+      },
+      { basePath: '/api', bodyLimit: 1024, onError }
+    );
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should serve a Zodsei client end to end', async () => {
+    const client = createClient(contract, { adapter: new FetchAdapter({ baseURL }) });
+
+    await expect(client.users.getById({ id: '42' })).resolves.toEqual({ id: '42', name: 'Ada' });
+    await expect(client.users.me()).resolves.toEqual({ id: 'me', name: 'Me' });
+    await expect(client.users.list({ query: { limit: 1 } })).resolves.toHaveLength(1);
+
+    const created = await client.users.create.raw({
+      headers: { 'x-tenant': 't1' },
+      body: { name: 'Grace' },
+    });
+    expect(created.status).toBe(201);
+    expect(created.headers.location).toBe('/users/1');
+    expect(created.data).toEqual({ id: 't1', name: 'Grace' });
+
+    const error = await client.users.getById({ id: 'missing' }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(404);
+    expect((error as HttpError).response).toEqual({ message: 'No such user' });
+  });
+
+  it('should coerce path and query strings to the schema types', async () => {
+    const client = createClient(contract, { adapter: new FetchAdapter({ baseURL }) });
+
+    await expect(client.orders.getById({ id: 7, expand: true })).resolves.toEqual({
+      id: 7,
+      expand: true,
+    });
+    await expect(client.orders.list({ query: { page: 2, status: ['open'] } })).resolves.toEqual({
+      page: 2,
+      status: ['open'],
+    });
+
+    const invalid = await fetch(`${baseURL}/orders/seven`);
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).issues).toEqual([expect.objectContaining({ path: ['id'] })]);
+  });
+
+  it('should reject invalid requests with 400 and validation issues', async () => {
+    const invalidQuery = await fetch(`${baseURL}/users?limit=500`);
+    expect(invalidQuery.status).toBe(400);
+    const body = await invalidQuery.json();
+    expect(body.issues).toEqual([expect.objectContaining({ path: ['query', 'limit'] })]);
+
+    const invalidBody = await fetch(`${baseURL}/users`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-tenant': 't1' },
+      body: '{"name":',
+    });
+    expect(invalidBody.status).toBe(400);
+    expect(await invalidBody.json()).toEqual({ message: 'Invalid JSON body' });
+  });
+
+  it('should answer 404, 405 and 501 for unknown routes and missing handlers', async () => {
+    expect((await fetch(`${baseURL}/nope`)).status).toBe(404);
+    expect((await fetch(`${baseURL.replace('/api', '')}/users/1`)).status).toBe(404);
+
+    const notAllowed = await fetch(`${baseURL}/users/me`, { method: 'PUT' });
+    expect(notAllowed.status).toBe(405);
+    expect(notAllowed.headers.get('allow')).toContain('GET');
+
+    expect((await fetch(`${baseURL}/users/1`, { method: 'DELETE' })).status).toBe(501);
+  });
+
+  it('should answer HEAD requests from GET routes without a body', async () => {
+    const response = await fetch(`${baseURL}/users/42`, { method: 'HEAD' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.text()).toBe('');
+
+    const notAllowed = await fetch(`${baseURL}/users`, { method: 'PUT' });
+    expect(notAllowed.headers.get('allow')).toBe('GET, HEAD, POST');
+  });
+
+  it('should answer 413 for bodies over the limit', async () => {
+    const send = (body: string) =>
+      fetch(`${baseURL}/users`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-tenant': 't1' },
+        body,
+      });
+
+    const tooLarge = await send(JSON.stringify({ name: 'x'.repeat(2048) }));
+    expect(tooLarge.status).toBe(413);
+    expect(await tooLarge.json()).toEqual({ message: 'Payload Too Large' });
+
+    // Streamed without a content-length
+    const chunk = new TextEncoder().encode(JSON.stringify({ name: 'x'.repeat(2048) }));
+    const streamed = await fetch(`${baseURL}/users`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-tenant': 't1' },
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(chunk);
+          controller.close();
+        },
+      }),
+      duplex: 'half',
+    } as RequestInit);
+    expect(streamed.status).toBe(413);
+
+    await expect(send(JSON.stringify({ name: 'x'.repeat(512) }))).resolves.toHaveProperty(
+      'status',
+      201
+    );
+  });
+
+  it('should answer 500 when a reply fails response validation', async () => {
+    const response = await fetch(`${baseURL}/broken`);
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ message: 'Internal Server Error' });
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'response' }),
+      expect.anything()
+    );
+  });
+});
@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/node.ts', 'src/express.ts', 'src/fastify.ts', 'src/cli.ts'],
   format: ['cjs', 'esm'],
   dts: true,
   splitting: false,
@@ -13,6 +13,9 @@ export default defineConfig({
   external: [
     'zod',
     'axios',
-    'ky'
+    'ky',
+    'yaml',
+    'express',
+    'fastify'
   ],
 });